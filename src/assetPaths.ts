@@ -0,0 +1,26 @@
+import { TFile } from "obsidian";
+
+// Folder inside each slug folder (or the export folder) that holds the assets
+const ASSET_FOLDER = "assets";
+
+/**
+ * Path of an asset relative to its slug folder, e.g. "assets/Attachments/image.png".
+ * Keeping the vault folder structure makes the path unique and stable, so two
+ * attachments with the same name in different folders never overwrite each other.
+ */
+export function getAssetPath(asset: TFile): string {
+	return `${ASSET_FOLDER}/${asset.path}`;
+}
+
+/**
+ * URL to reference an asset from a rendered page. Absolute when the page lives
+ * under a slug folder in the deployment, relative for local exports.
+ */
+export function getAssetUrl(asset: TFile, parentSlug?: string): string {
+	const encodedPath = getAssetPath(asset)
+		.split("/")
+		.map(segment => encodeURIComponent(segment))
+		.join("/");
+
+	return parentSlug ? `/${parentSlug}/${encodedPath}` : encodedPath;
+}
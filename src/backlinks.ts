@@ -0,0 +1,79 @@
+import { App, TFile, getLinkpath } from "obsidian";
+import { getPublishFrontmatter } from "./frontmatter";
+import { Backlink } from "./templateGenerator";
+
+// How much text to keep on each side of a link in a context snippet
+const SNIPPET_RADIUS = 80;
+
+/**
+ * Find the notes linking to a page, limited to the notes in pageUrls (the pages of the deployment).
+ * Uses the resolved links from the metadata cache, with a snippet of text around each link.
+ */
+export async function findBacklinks(app: App, target: TFile, pageUrls: Map<string, string>): Promise<Backlink[]> {
+	const backlinks: Backlink[] = [];
+
+	for (const [sourcePath, targets] of Object.entries(app.metadataCache.resolvedLinks)) {
+		const url = pageUrls.get(sourcePath);
+		if (!url || sourcePath === target.path || !targets[target.path]) {
+			continue;
+		}
+
+		const source = app.vault.getAbstractFileByPath(sourcePath);
+		if (!(source instanceof TFile)) {
+			continue;
+		}
+
+		backlinks.push({
+			title: getPublishFrontmatter(app, source).title ?? source.basename,
+			url,
+			snippets: await getLinkSnippets(app, source, target)
+		});
+	}
+
+	return backlinks.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Plain-text context around every link from source to target
+ */
+async function getLinkSnippets(app: App, source: TFile, target: TFile): Promise<string[]> {
+	const links = app.metadataCache.getFileCache(source)?.links ?? [];
+	const content = await app.vault.cachedRead(source);
+	const snippets: string[] = [];
+
+	for (const link of links) {
+		const linked = app.metadataCache.getFirstLinkpathDest(getLinkpath(link.link), source.path);
+		if (linked !== target) {
+			continue;
+		}
+
+		// The line holding the link, trimmed to the text around it
+		const { start, end } = link.position;
+		const lineStart = content.lastIndexOf("\n", start.offset - 1) + 1;
+		const lineEndIndex = content.indexOf("\n", end.offset);
+		const lineEnd = lineEndIndex === -1 ? content.length : lineEndIndex;
+		const from = Math.max(lineStart, start.offset - SNIPPET_RADIUS);
+		const to = Math.min(lineEnd, end.offset + SNIPPET_RADIUS);
+
+		const text = toPlainText(content.substring(from, to));
+		const snippet = text && `${from > lineStart ? "…" : ""}${text}${to < lineEnd ? "…" : ""}`;
+		if (snippet && !snippets.includes(snippet)) {
+			snippets.push(snippet);
+		}
+	}
+
+	return snippets;
+}
+
+/**
+ * Strip the markdown syntax that would look odd in a snippet
+ */
+function toPlainText(markdown: string): string {
+	return markdown
+		.replace(/!?\[\[([^\]|]*)\|([^\]]*)\]\]/g, "$2")
+		.replace(/!?\[\[([^\]]*)\]\]/g, "$1")
+		.replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+		.replace(/^\s*(?:[-*+]\s+(?:\[.\]\s+)?|\d+\.\s+|#{1,6}\s+|>\s*)+/, "")
+		.replace(/(\*\*|__|\*|_|==|~~|`)/g, "")
+		.trim();
+}
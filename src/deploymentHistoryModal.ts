@@ -0,0 +1,162 @@
+import { App, Modal } from "obsidian";
+import type VercelPublisherPlugin from "./main";
+import { DeploymentSummary, VercelApi } from "./vercelApi";
+import { DeploymentRecord } from "./settings";
+
+// Helper function to set CSS properties
+function setCssProps(element: HTMLElement, props: Record<string, string | number>) {
+	for (const [key, value] of Object.entries(props)) {
+		element.style.setProperty(
+			key.replace(/([A-Z])/g, "-$1").toLowerCase(),
+			typeof value === "number" ? `${value}px` : value
+		);
+	}
+}
+
+/**
+ * Lists the project's production deployments, with actions to open, inspect or roll back to each one
+ */
+export class DeploymentHistoryModal extends Modal {
+	plugin: VercelPublisherPlugin;
+
+	constructor(app: App, plugin: VercelPublisherPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		setCssProps(contentEl, {
+			padding: "20px",
+			minWidth: "550px"
+		});
+
+		contentEl.createEl("h3", { text: "Deployment history" });
+
+		if (!this.plugin.settings.vercelApiToken || !this.plugin.settings.vercelProjectName) {
+			contentEl.createEl("p", { text: "Set your API token and project name in the plugin settings first." });
+			return;
+		}
+
+		const loadingEl = contentEl.createDiv({ text: "Loading..." });
+		setCssProps(loadingEl, {
+			textAlign: "center",
+			padding: "20px",
+			color: "var(--text-muted)"
+		});
+
+		const vercelApi = new VercelApi(
+			this.plugin.settings.vercelApiToken,
+			this.plugin.settings.vercelProjectName
+		);
+		let deployments: DeploymentSummary[];
+		let currentId: string | undefined;
+		try {
+			[deployments, currentId] = await Promise.all([
+				vercelApi.getDeployments("production"),
+				vercelApi.getProductionDeploymentId()
+			]);
+		} catch (error) {
+			console.error("Vercel deployment history error:", error);
+			const errorMessage = error instanceof Error ? error.message : "Unknown error";
+			loadingEl.setText(`Could not load deployments: ${errorMessage}`);
+			return;
+		}
+		loadingEl.remove();
+
+		if (deployments.length === 0) {
+			contentEl.createEl("p", { text: "No production deployments found." });
+			return;
+		}
+
+		const listEl = contentEl.createDiv({ cls: "deployment-history-list" });
+		setCssProps(listEl, {
+			maxHeight: "400px",
+			overflowY: "auto"
+		});
+
+		for (const deployment of deployments) {
+			const record = this.plugin.settings.deploymentHistory.find(r => r.deploymentId === deployment.uid);
+			this.renderDeployment(listEl, deployment, record, deployment.uid === currentId);
+		}
+	}
+
+	renderDeployment(containerEl: HTMLElement, deployment: DeploymentSummary, record: DeploymentRecord | undefined, isCurrent: boolean) {
+		const rowEl = containerEl.createDiv({ cls: "deployment-history-row" });
+		setCssProps(rowEl, {
+			display: "flex",
+			gap: "12px",
+			alignItems: "center",
+			padding: "8px 0",
+			borderBottom: "1px solid var(--background-modifier-border)"
+		});
+
+		const infoEl = rowEl.createDiv();
+		setCssProps(infoEl, {
+			flex: "1",
+			minWidth: "0"
+		});
+
+		const titleEl = infoEl.createDiv({ text: new Date(deployment.created).toLocaleString() });
+		setCssProps(titleEl, {
+			fontWeight: "500"
+		});
+		if (isCurrent) {
+			titleEl.createSpan({ text: " (current)" });
+		}
+
+		// Page count and trigger come from this device's history, or from the deployment's metadata
+		const pageCount = record?.publishedPages.length ?? deployment.meta?.pages;
+		const trigger = record?.trigger ?? deployment.meta?.trigger;
+		const details = [
+			deployment.state.toLowerCase(),
+			deployment.meta?.staged ? "preview" : "",
+			pageCount !== undefined ? `${pageCount} page(s)` : "",
+			trigger ? `published from ${trigger}` : ""
+		].filter(detail => detail);
+
+		const detailsEl = infoEl.createDiv({ text: details.join(" · ") });
+		setCssProps(detailsEl, {
+			fontSize: "12px",
+			color: "var(--text-muted)",
+			overflow: "hidden",
+			textOverflow: "ellipsis",
+			whiteSpace: "nowrap"
+		});
+
+		if (deployment.url) {
+			const openButton = rowEl.createEl("button", { text: "Open" });
+			openButton.addEventListener("click", () => {
+				window.open(`https://${deployment.url}`);
+			});
+		}
+
+		const inspectButton = rowEl.createEl("button", { text: "Inspect" });
+		inspectButton.addEventListener("click", () => {
+			window.open(deployment.inspectorUrl || `https://vercel.com/deployments/${deployment.uid}`);
+		});
+
+		// Previews that were never promoted from this device have no pages to restore
+		const canRollBack = !deployment.meta?.staged || record !== undefined;
+		if (deployment.state === "READY" && !isCurrent && canRollBack) {
+			const rollbackButton = rowEl.createEl("button", { text: "Roll back" });
+			rollbackButton.addEventListener("click", () => {
+				// Ask for a second click, as this changes the live site
+				if (rollbackButton.textContent !== "Confirm") {
+					rollbackButton.setText("Confirm");
+					rollbackButton.addClass("mod-warning");
+					return;
+				}
+				void this.plugin.rollbackToDeployment(deployment.uid);
+				this.close();
+			});
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
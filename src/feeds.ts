@@ -0,0 +1,153 @@
+export type FeedFormat = "atom" | "rss";
+export type FeedContent = "full" | "summary";
+
+export interface FeedEntry {
+	title: string;
+	url: string;  // absolute page URL, also used as the entry id
+	publishedAt: number;
+	updatedAt: number;
+	summary: string;
+	contentHtml?: string;  // only in full-content feeds
+}
+
+export interface FeedOptions {
+	title: string;
+	siteUrl: string;  // e.g. "https://notes.example.com", without a trailing slash
+	description?: string;
+}
+
+export const FEED_XML_PATH = "feed.xml";
+export const FEED_JSON_PATH = "feed.json";
+
+// Feed readers only need the latest entries
+const MAX_FEED_ENTRIES = 50;
+
+// Length of generated summaries for pages without a description
+const SUMMARY_LENGTH = 280;
+
+/**
+ * Make the root-relative links and sources in rendered HTML absolute, so they work inside feed readers
+ */
+export function absolutizeUrls(html: string, siteUrl: string): string {
+	return html.replace(/(\s(?:href|src))="\/(?!\/)/g, `$1="${siteUrl}/`);
+}
+
+/**
+ * Plain text of rendered HTML, with whitespace collapsed
+ */
+export function htmlToText(html: string): string {
+	return html
+		.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+		.replace(/<[^>]+>/g, " ")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, "\"")
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, "&")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * Plain-text summary of rendered HTML, cut at a word boundary
+ */
+export function summarizeHtml(html: string): string {
+	const text = htmlToText(html);
+	if (text.length <= SUMMARY_LENGTH) {
+		return text;
+	}
+	const cut = text.lastIndexOf(" ", SUMMARY_LENGTH);
+	return `${text.substring(0, cut > 0 ? cut : SUMMARY_LENGTH)}…`;
+}
+
+export function generateXmlFeed(format: FeedFormat, options: FeedOptions, entries: FeedEntry[]): string {
+	return format === "rss" ? generateRssFeed(options, entries) : generateAtomFeed(options, entries);
+}
+
+function generateAtomFeed(options: FeedOptions, entries: FeedEntry[]): string {
+	const sorted = sortEntries(entries);
+	const updated = sorted.reduce((latest, entry) => Math.max(latest, entry.updatedAt), 0) || Date.now();
+
+	const items = sorted.map(entry => `	<entry>
+		<title>${escapeXml(entry.title)}</title>
+		<link href="${escapeXml(entry.url)}"/>
+		<id>${escapeXml(entry.url)}</id>
+		<published>${new Date(entry.publishedAt).toISOString()}</published>
+		<updated>${new Date(entry.updatedAt).toISOString()}</updated>
+		<summary>${escapeXml(entry.summary)}</summary>${entry.contentHtml ? `
+		<content type="html">${escapeXml(entry.contentHtml)}</content>` : ""}
+	</entry>`).join("\n");
+
+	return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+	<title>${escapeXml(options.title)}</title>${options.description ? `
+	<subtitle>${escapeXml(options.description)}</subtitle>` : ""}
+	<link href="${escapeXml(options.siteUrl)}/"/>
+	<link rel="self" href="${escapeXml(`${options.siteUrl}/${FEED_XML_PATH}`)}"/>
+	<id>${escapeXml(options.siteUrl)}/</id>
+	<updated>${new Date(updated).toISOString()}</updated>
+${items}
+</feed>
+`;
+}
+
+function generateRssFeed(options: FeedOptions, entries: FeedEntry[]): string {
+	const items = sortEntries(entries).map(entry => `		<item>
+			<title>${escapeXml(entry.title)}</title>
+			<link>${escapeXml(entry.url)}</link>
+			<guid isPermaLink="true">${escapeXml(entry.url)}</guid>
+			<pubDate>${new Date(entry.publishedAt).toUTCString()}</pubDate>
+			<description>${escapeXml(entry.contentHtml ?? entry.summary)}</description>
+		</item>`).join("\n");
+
+	return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+	<channel>
+		<title>${escapeXml(options.title)}</title>
+		<link>${escapeXml(options.siteUrl)}/</link>
+		<description>${escapeXml(options.description ?? options.title)}</description>
+		<atom:link href="${escapeXml(`${options.siteUrl}/${FEED_XML_PATH}`)}" rel="self" type="application/rss+xml"/>
+${items}
+	</channel>
+</rss>
+`;
+}
+
+/**
+ * JSON Feed 1.1, see https://www.jsonfeed.org/version/1.1/
+ */
+export function generateJsonFeed(options: FeedOptions, entries: FeedEntry[]): string {
+	const feed = {
+		version: "https://jsonfeed.org/version/1.1",
+		title: options.title,
+		description: options.description,
+		home_page_url: `${options.siteUrl}/`,
+		feed_url: `${options.siteUrl}/${FEED_JSON_PATH}`,
+		items: sortEntries(entries).map(entry => ({
+			id: entry.url,
+			url: entry.url,
+			title: entry.title,
+			summary: entry.summary,
+			...(entry.contentHtml ? { content_html: entry.contentHtml } : { content_text: entry.summary }),
+			date_published: new Date(entry.publishedAt).toISOString(),
+			date_modified: new Date(entry.updatedAt).toISOString()
+		}))
+	};
+	return JSON.stringify(feed, null, 2);
+}
+
+function sortEntries(entries: FeedEntry[]): FeedEntry[] {
+	return [...entries]
+		.sort((a, b) => b.publishedAt - a.publishedAt)
+		.slice(0, MAX_FEED_ENTRIES);
+}
+
+export function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
@@ -0,0 +1,73 @@
+import plexSerif400Normal from "@fontsource/ibm-plex-serif/files/ibm-plex-serif-latin-400-normal.woff2";
+import plexSerif400Italic from "@fontsource/ibm-plex-serif/files/ibm-plex-serif-latin-400-italic.woff2";
+import plexSerif500Normal from "@fontsource/ibm-plex-serif/files/ibm-plex-serif-latin-500-normal.woff2";
+import plexSerif600Normal from "@fontsource/ibm-plex-serif/files/ibm-plex-serif-latin-600-normal.woff2";
+import plexSerif600Italic from "@fontsource/ibm-plex-serif/files/ibm-plex-serif-latin-600-italic.woff2";
+
+export type FontChoice = "bundled" | "system";
+
+interface FontFace {
+	file: string;
+	weight: number;
+	style: "normal" | "italic";
+	data: Uint8Array;
+}
+
+export interface FontFile {
+	path: string;  // relative to the site root (or export folder)
+	data: ArrayBuffer;
+}
+
+// IBM Plex Serif (SIL Open Font License) from Fontsource. Built into the plugin, then
+// deployed with the site so readers never contact a font CDN.
+const BUNDLED_FONT_FAMILY = "IBM Plex Serif";
+const BUNDLED_FONT_FACES: FontFace[] = [
+	{ file: "latin-400-normal.woff2", weight: 400, style: "normal", data: plexSerif400Normal },
+	{ file: "latin-400-italic.woff2", weight: 400, style: "italic", data: plexSerif400Italic },
+	{ file: "latin-500-normal.woff2", weight: 500, style: "normal", data: plexSerif500Normal },
+	{ file: "latin-600-normal.woff2", weight: 600, style: "normal", data: plexSerif600Normal },
+	{ file: "latin-600-italic.woff2", weight: 600, style: "italic", data: plexSerif600Italic }
+];
+
+const FONT_FOLDER = "_site/fonts";
+
+export const SYSTEM_FONT_STACK = "-apple-system, BlinkMacSystemFont, \"Segoe UI\", Roboto, \"Helvetica Neue\", Arial, sans-serif";
+
+/**
+ * The font-family value for the page text
+ */
+export function getFontFamily(choice: FontChoice): string {
+	return choice === "bundled" ? `"${BUNDLED_FONT_FAMILY}", Georgia, serif` : SYSTEM_FONT_STACK;
+}
+
+/**
+ * @font-face rules for a theme stylesheet. URLs are relative to "_site/themes/",
+ * so they work both in deployments and in local exports.
+ */
+export function getFontFaceRules(choice: FontChoice): string {
+	if (choice !== "bundled") {
+		return "";
+	}
+
+	return BUNDLED_FONT_FACES.map(face => `@font-face {
+	font-family: "${BUNDLED_FONT_FAMILY}";
+	font-style: ${face.style};
+	font-weight: ${face.weight};
+	font-display: swap;
+	src: url("../fonts/${face.file}") format("woff2");
+}`).join("\n\n");
+}
+
+/**
+ * The font files to deploy with a site, or to write next to a local export
+ */
+export function getFontFiles(choice: FontChoice): FontFile[] {
+	if (choice !== "bundled") {
+		return [];
+	}
+
+	return BUNDLED_FONT_FACES.map(face => ({
+		path: `${FONT_FOLDER}/${face.file}`,
+		data: face.data.buffer.slice(face.data.byteOffset, face.data.byteOffset + face.data.byteLength)
+	}));
+}
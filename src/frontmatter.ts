@@ -0,0 +1,64 @@
+import { App, TFile } from "obsidian";
+
+/**
+ * Publishing options a note can set in its frontmatter
+ */
+export interface PublishFrontmatter {
+	publish?: boolean;
+	slug?: string;
+	title?: string;
+	description?: string;
+	theme?: string;
+	template?: string;
+	toc?: boolean;
+	noindex?: boolean;
+	image?: string;  // URL, vault path or [[wikilink]] of the social preview image
+	author?: string;
+	search?: boolean;  // false leaves the note out of the site search index
+	password?: string;  // protects the page and its linked pages
+}
+
+/**
+ * Read the publishing keys from a note's frontmatter, ignoring values of the wrong type
+ */
+export function getPublishFrontmatter(app: App, file: TFile): PublishFrontmatter {
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+	if (!frontmatter) {
+		return {};
+	}
+
+	return {
+		publish: parseBoolean(frontmatter.publish),
+		slug: parseString(frontmatter.slug),
+		title: parseString(frontmatter.title),
+		description: parseString(frontmatter.description),
+		theme: parseString(frontmatter.theme),
+		template: parseString(frontmatter.template),
+		toc: parseBoolean(frontmatter.toc),
+		noindex: parseBoolean(frontmatter.noindex),
+		image: parseString(frontmatter.image),
+		author: parseString(frontmatter.author),
+		search: parseBoolean(frontmatter.search),
+		password: parseString(frontmatter.password)
+	};
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+	if (typeof value === "boolean") {
+		return value;
+	}
+	if (value === "true" || value === "false") {
+		return value === "true";
+	}
+	return undefined;
+}
+
+function parseString(value: unknown): string | undefined {
+	if (typeof value === "string" && value.trim().length > 0) {
+		return value.trim();
+	}
+	if (typeof value === "number") {
+		return String(value);
+	}
+	return undefined;
+}
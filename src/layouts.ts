@@ -0,0 +1,237 @@
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+
+export type LayoutValue = string | number | boolean | null | undefined | LayoutData[];
+
+export interface LayoutData {
+	[key: string]: LayoutValue;
+}
+
+export interface Layout {
+	name: string;
+	template: string;
+	partials: Record<string, string>;
+}
+
+// How deep partials may include other partials
+const MAX_PARTIAL_DEPTH = 10;
+
+// {{{raw}}} or {{key}}, {{#section}}, {{^inverted}}, {{/section}}, {{>partial}}, {{!comment}}
+const TAG_REGEX = /\{\{\{\s*([\w-]+)\s*\}\}\}|\{\{\s*([#^/>!]?)\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * The built-in layout, used when no vault layout is selected
+ */
+export const DEFAULT_LAYOUT = `<div class="container{{#tocHtml}} has-toc{{/tocHtml}}">
+		{{{tocHtml}}}
+		<main class="content">
+			{{#siteTitle}}<header class="header"><a class="site-title" href="/">{{siteTitle}}</a></header>{{/siteTitle}}
+			{{{searchHtml}}}
+			<h1>{{title}}</h1>
+			<div class="markdown-content">
+				{{{content}}}
+			</div>
+			{{{backlinksHtml}}}
+		</main>
+	</div>`;
+
+/**
+ * A small logic-less templating engine in the spirit of Mustache.
+ * Values are HTML-escaped unless written as {{{raw}}}, and templates cannot run code.
+ *
+ * - {{key}} / {{{key}}}: escaped / raw value
+ * - {{#key}}...{{/key}}: rendered if key is truthy, or once per item if it is a list
+ * - {{^key}}...{{/key}}: rendered if key is falsy or an empty list
+ * - {{>name}}: includes the partial "name"
+ * - {{!comment}}: ignored
+ */
+export class LayoutEngine {
+	private partials: Record<string, string>;
+
+	constructor(partials: Record<string, string> = {}) {
+		this.partials = partials;
+	}
+
+	render(template: string, data: LayoutData, depth = 0): string {
+		const regex = new RegExp(TAG_REGEX.source, "g");
+		let output = "";
+		let cursor = 0;
+		let match: RegExpExecArray | null;
+
+		while ((match = regex.exec(template)) !== null) {
+			output += template.slice(cursor, match.index);
+			cursor = regex.lastIndex;
+
+			const [, rawKey, sigil, key = ""] = match;
+			if (rawKey) {
+				output += this.toText(data[rawKey]);
+				continue;
+			}
+
+			switch (sigil) {
+				case "":
+					output += this.escapeHtml(this.toText(data[key]));
+					break;
+
+				case ">":
+					if (depth >= MAX_PARTIAL_DEPTH) {
+						throw new Error(`Layout partials nested too deeply at {{>${key}}}`);
+					}
+					output += this.render(this.partials[key] ?? "", data, depth + 1);
+					break;
+
+				case "#":
+				case "^": {
+					const end = this.findSectionEnd(template, key, cursor);
+					if (!end) {
+						throw new Error(`Unclosed layout section {{${sigil}${key}}}`);
+					}
+
+					const inner = template.slice(cursor, end.start);
+					cursor = end.end;
+					regex.lastIndex = end.end;
+
+					const value = data[key];
+					if (sigil === "^") {
+						if (!this.isTruthy(value)) {
+							output += this.render(inner, data, depth);
+						}
+					} else if (Array.isArray(value)) {
+						for (const item of value) {
+							output += this.render(inner, { ...data, ...item }, depth);
+						}
+					} else if (this.isTruthy(value)) {
+						output += this.render(inner, data, depth);
+					}
+					break;
+				}
+
+				default:
+					// Comments and stray closing tags render nothing
+					break;
+			}
+		}
+
+		return output + template.slice(cursor);
+	}
+
+	/**
+	 * Find the {{/key}} closing a section, skipping nested sections with the same key
+	 */
+	private findSectionEnd(template: string, key: string, from: number): { start: number; end: number } | null {
+		const regex = new RegExp(TAG_REGEX.source, "g");
+		regex.lastIndex = from;
+		let nesting = 0;
+		let match: RegExpExecArray | null;
+
+		while ((match = regex.exec(template)) !== null) {
+			const [, , sigil, tagKey] = match;
+			if (tagKey !== key) continue;
+
+			if (sigil === "#" || sigil === "^") {
+				nesting++;
+			} else if (sigil === "/") {
+				if (nesting === 0) {
+					return { start: match.index, end: regex.lastIndex };
+				}
+				nesting--;
+			}
+		}
+
+		return null;
+	}
+
+	private isTruthy(value: LayoutValue): boolean {
+		return Array.isArray(value) ? value.length > 0 : Boolean(value);
+	}
+
+	private toText(value: LayoutValue): string {
+		if (value === null || value === undefined || value === false || Array.isArray(value)) {
+			return "";
+		}
+		return String(value);
+	}
+
+	private escapeHtml(text: string): string {
+		return text
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;")
+			.replace(/"/g, "&quot;")
+			.replace(/'/g, "&#39;");
+	}
+}
+
+/**
+ * Loads layouts from a vault folder: "<name>.html" files, with partials in "partials/<name>.html"
+ */
+export class LayoutLoader {
+	private app: App;
+	private layoutsFolder: string;
+	private loaded = new Map<string, Layout | null>();
+	private partials: Record<string, string> | null = null;
+
+	constructor(app: App, layoutsFolder: string) {
+		this.app = app;
+		this.layoutsFolder = layoutsFolder ? normalizePath(layoutsFolder) : "";
+	}
+
+	/**
+	 * Names of all layouts in the layouts folder
+	 */
+	listLayouts(): string[] {
+		return this.getHtmlFiles(this.layoutsFolder).map(f => f.basename);
+	}
+
+	/**
+	 * Load a layout and all partials, or null if there is no such layout
+	 */
+	async loadLayout(name: string): Promise<Layout | null> {
+		if (this.loaded.has(name)) {
+			return this.loaded.get(name) ?? null;
+		}
+
+		let layout: Layout | null = null;
+		const file = this.layoutsFolder
+			? this.app.vault.getAbstractFileByPath(normalizePath(`${this.layoutsFolder}/${name}.html`))
+			: null;
+		if (file instanceof TFile) {
+			layout = {
+				name,
+				template: await this.app.vault.read(file),
+				partials: await this.loadPartials()
+			};
+		} else {
+			console.warn(`Layout "${name}" not found, using the built-in layout`);
+		}
+
+		this.loaded.set(name, layout);
+		return layout;
+	}
+
+	private async loadPartials(): Promise<Record<string, string>> {
+		if (this.partials) {
+			return this.partials;
+		}
+
+		const partials: Record<string, string> = {};
+		for (const file of this.getHtmlFiles(`${this.layoutsFolder}/partials`)) {
+			partials[file.basename] = await this.app.vault.read(file);
+		}
+
+		this.partials = partials;
+		return partials;
+	}
+
+	private getHtmlFiles(folderPath: string): TFile[] {
+		if (!this.layoutsFolder) {
+			return [];
+		}
+
+		const folder = this.app.vault.getAbstractFileByPath(normalizePath(folderPath));
+		if (!(folder instanceof TFolder)) {
+			return [];
+		}
+
+		return folder.children.filter((f): f is TFile => f instanceof TFile && f.extension === "html");
+	}
+}
@@ -0,0 +1,114 @@
+import { App, TFile, getAllTags, getLinkpath, normalizePath } from "obsidian";
+import { getPublishFrontmatter } from "./frontmatter";
+
+export interface LinkGraphOptions {
+	maxDepth: number;  // 0 = only the main page, 1 = pages it links to, ...
+	maxPages: number;  // hard cap on linked pages, not counting the main page
+	folders: string[];  // only follow links into these folders (empty = anywhere)
+	tags: string[];  // only follow links to notes with one of these tags (empty = any)
+}
+
+export interface LinkGraphResult {
+	pages: TFile[];  // linked pages in discovery order, excluding the main page
+	truncated: boolean;  // true when maxPages stopped the walk early
+	outOfScope: TFile[];  // linked notes skipped because of the folder/tag scope or "publish: false"
+}
+
+/**
+ * Walks [[wiki links]] and ![[embeds]] from a note using the metadata cache
+ */
+export class LinkGraph {
+	private app: App;
+	private options: LinkGraphOptions;
+
+	constructor(app: App, options: LinkGraphOptions) {
+		this.app = app;
+		this.options = options;
+	}
+
+	/**
+	 * Breadth-first walk from the main file, up to maxDepth links away
+	 */
+	walk(mainFile: TFile): LinkGraphResult {
+		const visited = new Set<string>([mainFile.path]);
+		const pages: TFile[] = [];
+		const outOfScope: TFile[] = [];
+		let truncated = false;
+
+		let frontier: TFile[] = [mainFile];
+		for (let depth = 0; depth < this.options.maxDepth && frontier.length > 0 && !truncated; depth++) {
+			const next: TFile[] = [];
+
+			for (const file of frontier) {
+				for (const linked of this.getLinkedNotes(file)) {
+					// Cycle detection - each note is only visited once
+					if (visited.has(linked.path)) continue;
+					visited.add(linked.path);
+
+					if (!this.isInScope(linked)) {
+						outOfScope.push(linked);
+						continue;
+					}
+
+					if (pages.length >= this.options.maxPages) {
+						truncated = true;
+						break;
+					}
+
+					pages.push(linked);
+					next.push(linked);
+				}
+
+				if (truncated) break;
+			}
+
+			frontier = next;
+		}
+
+		return { pages, truncated, outOfScope };
+	}
+
+	/**
+	 * Resolve the markdown notes a file links to or embeds
+	 */
+	private getLinkedNotes(file: TFile): TFile[] {
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) return [];
+
+		const references = [...(cache.links ?? []), ...(cache.embeds ?? [])];
+		const notes: TFile[] = [];
+
+		for (const reference of references) {
+			const linkedFile = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(reference.link), file.path);
+			if (linkedFile && linkedFile.extension === "md" && !notes.includes(linkedFile)) {
+				notes.push(linkedFile);
+			}
+		}
+
+		return notes;
+	}
+
+	private isInScope(file: TFile): boolean {
+		const { folders, tags } = this.options;
+
+		// Notes marked "publish: false" are private, however they are reached
+		if (getPublishFrontmatter(this.app, file).publish === false) return false;
+
+		if (folders.length > 0) {
+			const inFolder = folders.some(folder => {
+				const prefix = normalizePath(folder);
+				return prefix === "/" || file.path.startsWith(`${prefix}/`);
+			});
+			if (!inFolder) return false;
+		}
+
+		if (tags.length > 0) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			const fileTags = (cache ? getAllTags(cache) ?? [] : []).map(t => t.replace(/^#/, "").toLowerCase());
+			const hasTag = tags.some(tag => fileTags.includes(tag.replace(/^#/, "").toLowerCase()));
+			if (!hasTag) return false;
+		}
+
+		return true;
+	}
+}
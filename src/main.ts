@@ -1,8 +1,84 @@
-import { Component, MarkdownRenderer, MarkdownView, Notice, Plugin, TFile, normalizePath } from "obsidian";
-import { DEFAULT_SETTINGS, VercelPublisherSettings, VercelPublisherSettingTab } from "./settings";
-import { TemplateGenerator, PageData } from "./templateGenerator";
-import { VercelApi, VercelFile } from "./vercelApi";
+import { Component, MarkdownRenderer, MarkdownView, Notice, Plugin, TFile, getAllTags, getFrontMatterInfo, getLinkpath, loadMermaid, loadPrism, normalizePath, parseLinktext, resolveSubpath } from "obsidian";
+import { DEFAULT_SETTINGS, PagePreview, PublishedPage, VercelPublisherSettings, VercelPublisherSettingTab } from "./settings";
+import { TemplateGenerator, FeedLink, PageData, PROTECTED_PAGE_TITLE, SiteIndexEntry, TocEntry } from "./templateGenerator";
+import { DeploymentResponse, VercelApi, VercelFile } from "./vercelApi";
 import { PublishModal } from "./publishModal";
+import { DeploymentHistoryModal } from "./deploymentHistoryModal";
+import { PublishCache } from "./publishCache";
+import { LinkGraph, LinkGraphResult } from "./linkGraph";
+import { getPublishFrontmatter } from "./frontmatter";
+import { getAssetPath, getAssetUrl } from "./assetPaths";
+import { ThemeLoader, getThemeStylesheetPath } from "./themes";
+import { LayoutLoader } from "./layouts";
+import { getFontFiles } from "./fonts";
+import { findBacklinks } from "./backlinks";
+import { FEED_JSON_PATH, FEED_XML_PATH, FeedEntry, absolutizeUrls, generateJsonFeed, generateXmlFeed, summarizeHtml } from "./feeds";
+import { ROBOTS_PATH, SITEMAP_PATH, SitemapEntry, generateRobotsTxt, generateSitemap } from "./sitemap";
+import { SEARCH_INDEX_PATH, SearchDocument, createSearchDocument, generateSearchIndex } from "./searchIndex";
+import { PageKey, derivePageKey, encryptHtml } from "./pageEncryption";
+import { markMath, replaceMath } from "./mathSvg";
+
+/**
+ * What markdownToHtml needs to know about the deployment a page is rendered for
+ */
+export interface RenderContext {
+	parentSlug?: string;  // slug folder the page is deployed under
+	pageUrls?: Map<string, string>;  // vault path -> URL of every page deployed in that slug folder
+	unpublishedLinks?: string[];  // collects link targets missing from pageUrls
+	embeddedFiles?: TFile[];  // collects notes transcluded with ![[embeds]]
+	embedStack?: string[];  // notes currently being transcluded, outermost first
+	headings?: TocEntry[];  // collects the page's own headings, without those of transcluded notes
+	headingIds?: Map<string, number>;  // heading ids taken so far, shared by a page and its transclusions
+}
+
+// How deep ![[note]] embeds may nest before they are rendered as plain links
+const MAX_EMBED_DEPTH = 3;
+
+// A table of contents with fewer entries is not worth showing
+const MIN_TOC_ENTRIES = 2;
+
+// How long to wait for Mermaid diagrams to be drawn before capturing a page
+const POST_PROCESSOR_TIMEOUT = 10000;
+
+/**
+ * Theme and layout loaders shared by all pages of one build or export
+ */
+export interface PageLoaders {
+	themes: ThemeLoader;
+	layouts: LayoutLoader;
+	urlPrefix: string;  // prefix for site-wide files: "/" in deployments, "" in local exports
+}
+
+// Progress shown while a deployment goes through Vercel's build states
+const DEPLOYMENT_PROGRESS: Record<string, string> = {
+	QUEUED: "Deployment queued...",
+	INITIALIZING: "Preparing the deployment...",
+	BUILDING: "Building the deployment...",
+	READY: "Deployment is live"
+};
+
+/**
+ * A published page and the linked pages deployed under its slug folder
+ */
+interface SlugFolder {
+	publishedPage: PublishedPage;
+	file: TFile;
+	pageKey?: PageKey;  // key of the published page, shared by linked pages without their own password
+	linkedFiles: TFile[];
+	slugs: Map<string, string>;  // vault path -> slug of each linked page
+	pageUrls: Map<string, string>;  // vault path -> URL of every page in the folder
+	pageKeys: Map<string, PageKey | undefined>;  // vault path -> key of every page in the folder
+}
+
+// Deployments kept in the history for rollbacks
+const MAX_DEPLOYMENT_HISTORY = 20;
+
+// Reserved slugs that would clash with index.html or the assets folder
+const RESERVED_SLUGS = ["index", "assets"];
+
+// Invisible markers that carry ^block-ids through the markdown renderer, which would otherwise drop them
+const BLOCK_ID_MARKER = "\u2060";
+const BLOCK_ID_REGEX = /\u2060block:([A-Za-z0-9-]+)\u2060/g;
 
 // Helper function to set CSS properties
 function setCssProps(element: HTMLElement, props: Record<string, string | number>) {
@@ -14,26 +90,17 @@ function setCssProps(element: HTMLElement, props: Record<string, string | number
 	}
 }
 
-// Helper function to convert ArrayBuffer to base64
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-	let binary = "";
-	const bytes = new Uint8Array(buffer);
-	const len = bytes.byteLength;
-	for (let i = 0; i < len; i++) {
-		const byte = bytes[i];
-		if (byte !== undefined) {
-			binary += String.fromCharCode(byte);
-		}
-	}
-	return window.btoa(binary);
-}
-
 export default class VercelPublisherPlugin extends Plugin {
 	settings: VercelPublisherSettings;
+	publishCache: PublishCache;
+	renderLibraries: Promise<unknown> | null = null;
 
 	async onload() {
 		await this.loadSettings();
 
+		const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.publishCache = new PublishCache(this.app, `${pluginDir}/publish-cache.json`, this.manifest.version);
+
 		// Add ribbon icon for local export
 		this.addRibbonIcon("file-output", "Export to HTML", async () => {
 			await this.exportCurrentNote();
@@ -94,6 +161,34 @@ export default class VercelPublisherPlugin extends Plugin {
 			}
 		});
 
+		// Add command to publish every note marked with "publish: true" in its frontmatter
+		this.addCommand({
+			id: "publish-marked-notes-to-vercel",
+			name: "Publish all marked notes",
+			callback: async () => {
+				await this.publishMarkedNotesToVercel();
+			}
+		});
+
+		// Add command to list past deployments, with rollback
+		this.addCommand({
+			id: "show-deployment-history",
+			name: "Show deployment history",
+			callback: () => {
+				new DeploymentHistoryModal(this.app, this).open();
+			}
+		});
+
+		// Add command to force a full rebuild on the next publish
+		this.addCommand({
+			id: "clear-publish-cache",
+			name: "Clear publish cache",
+			callback: async () => {
+				await this.publishCache.clear();
+				new Notice("Publish cache cleared");
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new VercelPublisherSettingTab(this.app, this));
 
@@ -115,14 +210,7 @@ export default class VercelPublisherPlugin extends Plugin {
 							.setTitle("Publish to Vercel")
 							.setIcon("upload-cloud")
 							.onClick(() => {
-								new PublishModal(this.app, this, file,
-									(slug: string) => {
-										void this.publishPageToVercel(file, slug);
-									},
-									() => {
-										void this.unpublishFromVercel(file);
-									}
-								).open();
+								this.openPublishModal(file);
 							});
 					});
 				}
@@ -158,22 +246,23 @@ export default class VercelPublisherPlugin extends Plugin {
 			const content = await this.app.vault.read(file);
 
 			// Convert markdown to HTML
-			const htmlContent = await this.markdownToHtml(content);
+			const headings: TocEntry[] = [];
+			const htmlContent = await this.markdownToHtml(content, file.path, { headings });
 
 			// Create page data
-			const pageData: PageData = {
-				title: file.basename,
-				content: htmlContent,
-				slug: this.generateSlug(file.basename)
-			};
+			const loaders = this.createPageLoaders("");
+			const slug = this.generateSlug(getPublishFrontmatter(this.app, file).slug ?? file.basename);
+			const pageData = await this.createPageData(file, htmlContent, slug, loaders, headings);
 
 			// Generate HTML
 			const templateGen = new TemplateGenerator(this.app);
 			const html = templateGen.generateHTML(pageData);
 
-			// Write to export folder
+			// Write to export folder, with the note's assets and stylesheet next to it
 			const outputPath = normalizePath(`${exportPath}/${pageData.slug}.html`);
 			await this.app.vault.adapter.write(outputPath, html);
+			await this.exportAssets(file, exportPath);
+			await this.exportStylesheets(loaders.themes, templateGen, exportPath);
 
 			loadingNotice.hide();
 			new Notice(`Exported to ${outputPath}`);
@@ -202,19 +291,20 @@ export default class VercelPublisherPlugin extends Plugin {
 			}
 
 			// Collect all pages
+			const loaders = this.createPageLoaders("");
 			const allPages: PageData[] = [];
 			for (const file of files) {
 				const content = await this.app.vault.read(file);
-				const htmlContent = await this.markdownToHtml(content);
-				allPages.push({
-					title: file.basename,
-					content: htmlContent,
-					slug: this.generateSlug(file.basename)
-				});
+				const headings: TocEntry[] = [];
+				const htmlContent = await this.markdownToHtml(content, file.path, { headings });
+				const slug = this.generateSlug(getPublishFrontmatter(this.app, file).slug ?? file.basename);
+				allPages.push(await this.createPageData(file, htmlContent, slug, loaders, headings));
+				await this.exportAssets(file, exportPath);
 			}
 
 			// Generate HTML files
 			const templateGen = new TemplateGenerator(this.app);
+			await this.exportStylesheets(loaders.themes, templateGen, exportPath);
 
 			// Generate individual pages
 			for (const page of allPages) {
@@ -232,6 +322,77 @@ export default class VercelPublisherPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Copy the assets referenced by a note into the export folder
+	 */
+	async exportAssets(file: TFile, exportPath: string) {
+		const assets = await this.findAssets(file);
+		for (const asset of assets) {
+			const outputPath = normalizePath(`${exportPath}/${getAssetPath(asset)}`);
+			await this.ensureFolderExists(outputPath.substring(0, outputPath.lastIndexOf("/")));
+			await this.app.vault.adapter.writeBinary(outputPath, await this.app.vault.readBinary(asset));
+		}
+	}
+
+	/**
+	 * Write the shared stylesheet of every theme used by the exported pages, and the fonts they load
+	 */
+	async exportStylesheets(themeLoader: ThemeLoader, templateGen: TemplateGenerator, exportPath: string) {
+		for (const theme of themeLoader.getUsedThemes()) {
+			const outputPath = normalizePath(`${exportPath}/${getThemeStylesheetPath(theme.name)}`);
+			await this.ensureFolderExists(outputPath.substring(0, outputPath.lastIndexOf("/")));
+			await this.app.vault.adapter.write(outputPath, templateGen.generateStylesheet(theme, this.settings.fonts));
+		}
+
+		for (const font of getFontFiles(this.settings.fonts)) {
+			const outputPath = normalizePath(`${exportPath}/${font.path}`);
+			await this.ensureFolderExists(outputPath.substring(0, outputPath.lastIndexOf("/")));
+			await this.app.vault.adapter.writeBinary(outputPath, font.data);
+		}
+	}
+
+	createPageLoaders(urlPrefix: string): PageLoaders {
+		return {
+			themes: new ThemeLoader(this.app, this.settings.themesFolder),
+			layouts: new LayoutLoader(this.app, this.settings.layoutsFolder),
+			urlPrefix
+		};
+	}
+
+	/**
+	 * Create the page data for a note: title and metadata from frontmatter, plus its theme
+	 * and layout (frontmatter "theme" and "template" first, then settings)
+	 */
+	async createPageData(file: TFile, content: string, slug: string, loaders: PageLoaders, headings: TocEntry[] = []): Promise<PageData> {
+		const frontmatter = getPublishFrontmatter(this.app, file);
+		const cache = this.app.metadataCache.getFileCache(file);
+
+		const theme = await loaders.themes.useTheme(frontmatter.theme ?? this.settings.theme);
+		const layoutName = frontmatter.template ?? this.settings.layout;
+		const layout = layoutName ? await loaders.layouts.loadLayout(layoutName) : null;
+
+		return {
+			title: frontmatter.title ?? file.basename,
+			content,
+			slug,
+			description: frontmatter.description ?? this.getFirstParagraph(content),
+			author: frontmatter.author ?? (this.settings.author || undefined),
+			theme,
+			stylesheetUrl: `${loaders.urlPrefix}${getThemeStylesheetPath(theme.name)}`,
+			layout: layout ?? undefined,
+			modified: file.stat.mtime,
+			tags: cache ? (getAllTags(cache) ?? []).map(tag => tag.replace(/^#/, "")) : [],
+			colorSchemeToggle: this.settings.colorSchemeToggle,
+			noindex: frontmatter.noindex ?? this.settings.noindex,
+			toc: this.getTableOfContents(headings, frontmatter.toc ?? this.settings.tableOfContents)
+		};
+	}
+
+	getTableOfContents(headings: TocEntry[], enabled: boolean): TocEntry[] {
+		const entries = enabled ? headings.filter(heading => heading.level <= this.settings.tocDepth) : [];
+		return entries.length >= MIN_TOC_ENTRIES ? entries : [];
+	}
+
 	async ensureFolderExists(folderPath: string) {
 		const normalizedPath = normalizePath(folderPath);
 		const folderExists = await this.app.vault.adapter.exists(normalizedPath);
@@ -247,6 +408,46 @@ export default class VercelPublisherPlugin extends Plugin {
 			.replace(/^-|-$/g, "");
 	}
 
+	/**
+	 * Give every linked page a unique slug within its slug folder.
+	 * Pages whose names produce the same slug (e.g. "Notes/Ideas" and "Archive/Ideas", or "C++" and "C")
+	 * are disambiguated deterministically: the one closest to the vault root keeps the plain slug,
+	 * the others get a suffix derived from their path, so their URLs never depend on each other.
+	 */
+	async assignPageSlugs(linkedFiles: TFile[]): Promise<{ slugs: Map<string, string>; collisions: string[][] }> {
+		// Group pages by the slug their name would produce
+		const groups = new Map<string, TFile[]>();
+		for (const file of linkedFiles) {
+			const baseSlug = this.generateSlug(file.basename) || "page";
+			const group = groups.get(baseSlug) ?? [];
+			group.push(file);
+			groups.set(baseSlug, group);
+		}
+
+		const slugs = new Map<string, string>();
+		const collisions: string[][] = [];
+
+		for (const [baseSlug, files] of groups) {
+			const sorted = [...files].sort((a, b) =>
+				a.path.split("/").length - b.path.split("/").length || a.path.localeCompare(b.path)
+			);
+
+			for (const [index, file] of sorted.entries()) {
+				if (index === 0 && !RESERVED_SLUGS.includes(baseSlug)) {
+					slugs.set(file.path, baseSlug);
+				} else {
+					slugs.set(file.path, `${baseSlug}-${await this.generateHashSlug(file.path)}`);
+				}
+			}
+
+			if (files.length > 1) {
+				collisions.push(sorted.map(f => f.path));
+			}
+		}
+
+		return { slugs, collisions };
+	}
+
 	/**
 	 * Get MIME type from file extension
 	 * Based on Obsidian's officially supported file formats
@@ -287,8 +488,9 @@ export default class VercelPublisherPlugin extends Plugin {
 
 	/**
 	 * Create appropriate HTML element based on file type
+	 * The element points at src when given, otherwise at the bare filename
 	 */
-	createElementForFile(filename: string, alt?: string): HTMLElement {
+	createElementForFile(filename: string, alt?: string, src: string = filename): HTMLElement {
 		const extension = filename.split(".").pop()?.toLowerCase() || "";
 		const mimeType = this.getMimeType(extension);
 		const category = mimeType.split("/")[0]; // 'image', 'audio', 'video', 'application'
@@ -298,13 +500,13 @@ export default class VercelPublisherPlugin extends Plugin {
 		switch (category) {
 			case "image":
 				element = document.createElement("img");
-				element.setAttribute("src", filename);
+				element.setAttribute("src", src);
 				element.setAttribute("alt", alt || filename);
 				break;
 
 			case "video":
 				element = document.createElement("video");
-				element.setAttribute("src", filename);
+				element.setAttribute("src", src);
 				element.setAttribute("controls", "true");
 				setCssProps(element, {
 					maxWidth: "100%",
@@ -314,7 +516,7 @@ export default class VercelPublisherPlugin extends Plugin {
 
 			case "audio":
 				element = document.createElement("audio");
-				element.setAttribute("src", filename);
+				element.setAttribute("src", src);
 				element.setAttribute("controls", "true");
 				setCssProps(element, {
 					width: "100%"
@@ -324,7 +526,7 @@ export default class VercelPublisherPlugin extends Plugin {
 			case "application":
 				if (mimeType === "application/pdf") {
 					element = document.createElement("iframe");
-					element.setAttribute("src", filename);
+					element.setAttribute("src", src);
 					setCssProps(element, {
 						width: "100%",
 						height: "600px",
@@ -337,8 +539,7 @@ export default class VercelPublisherPlugin extends Plugin {
 			default:
 				// Unknown or unsupported - provide download link
 				element = document.createElement("a");
-				// Use relative path (same folder)
-				element.setAttribute("href", filename);
+				element.setAttribute("href", src);
 				element.setAttribute("download", filename);
 				element.textContent = `📎 ${filename}`;
 				setCssProps(element, {
@@ -354,26 +555,126 @@ export default class VercelPublisherPlugin extends Plugin {
 		return element;
 	}
 
-	async markdownToHtml(markdown: string, sourcePath: string = "", parentSlug?: string): Promise<string> {
-		// Use Obsidian's markdown renderer
+	async markdownToHtml(markdown: string, sourcePath: string = "", context: RenderContext = {}): Promise<string> {
+		const div = await this.renderMarkdown(markdown, sourcePath, context);
+		return div.innerHTML;
+	}
+
+	/**
+	 * Wait until Mermaid diagrams are drawn
+	 */
+	async waitForPostProcessors(container: HTMLElement) {
+		const isPending = () =>
+			Array.from(container.querySelectorAll(".mermaid")).some(diagram => !diagram.querySelector("svg"));
+
+		const deadline = Date.now() + POST_PROCESSOR_TIMEOUT;
+		while (isPending()) {
+			if (Date.now() > deadline) {
+				console.warn("Timed out waiting for diagrams to render");
+				break;
+			}
+			await sleep(50);
+		}
+	}
+
+	/**
+	 * Render markdown with Obsidian's renderer and rewrite links, images and embeds for the web
+	 */
+	async renderMarkdown(markdown: string, sourcePath: string, context: RenderContext): Promise<HTMLElement> {
+		const { parentSlug, pageUrls, unpublishedLinks } = context;
+
+		// Load Prism and Mermaid up front, so code is highlighted while rendering
+		this.renderLibraries ??= Promise.all([loadPrism(), loadMermaid()]);
+		await this.renderLibraries;
+
+		// Use Obsidian's markdown renderer. The output is attached off-screen while rendering,
+		// as Mermaid needs a laid out element to size its diagrams.
 		const div = document.createElement("div");
+		setCssProps(div, { position: "fixed", left: "-10000px", top: 0, width: 800 });
+		document.body.appendChild(div);
 		// Create a lightweight component for markdown rendering to avoid memory leaks
 		const component = new Component();
-		await MarkdownRenderer.render(this.app, markdown, div, sourcePath, component);
-		component.unload();
+		try {
+			// Frontmatter is metadata, and may hold a page password: it is never part of the page.
+			// Math is typeset as self-contained SVG afterwards, rather than by Obsidian's MathJax.
+			const body = markdown.substring(getFrontMatterInfo(markdown).contentStart);
+			const { markdown: marked, math } = markMath(body);
+			await MarkdownRenderer.render(this.app, this.markBlockIds(marked), div, sourcePath, component);
+			await this.waitForPostProcessors(div);
+			await replaceMath(div, math);
+		} finally {
+			component.unload();
+			div.remove();
+			div.removeAttribute("style");
+		}
+
+		// Give headings and ^block-ids anchors so deep links land on the right section.
+		// Heading ids are unique across the page and the notes it transcludes.
+		const headingIds = context.headingIds ?? new Map<string, number>();
+		this.addHeadingIds(div, headingIds);
+		this.addBlockIds(div);
+
+		// Embeds are not rendered yet, so these are only the page's own headings
+		if (context.headings && !context.embedStack?.length) {
+			div.querySelectorAll("h1, h2, h3, h4, h5, h6").forEach((heading) => {
+				context.headings?.push({
+					level: Number(heading.tagName.substring(1)),
+					id: heading.id,
+					text: heading.getAttribute("data-heading") ?? heading.textContent ?? ""
+				});
+			});
+		}
 
 		const links = div.querySelectorAll("a.internal-link");
 		links.forEach((link) => {
 			const href = link.getAttribute("href");
 			if (href && !href.startsWith("http")) {
+				const { path: linkpath, subpath } = parseLinktext(href);
+				const fragment = this.subpathToFragment(subpath);
+
+				// Same-page links like [[#Heading]] only need the fragment
+				if (!linkpath) {
+					link.setAttribute("href", fragment || "#");
+					link.removeAttribute("target");
+					return;
+				}
+
+				// Use the URL the builder assigned to the linked page, if it is part of the deployment
+				const linkedFile = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+				const pageUrl = linkedFile ? pageUrls?.get(linkedFile.path) : undefined;
+				if (pageUrl) {
+					link.setAttribute("href", `${pageUrl}${fragment}`);
+					link.removeAttribute("target");
+					return;
+				}
+
+				// When rendering for a deployment, the link points at a note that isn't deployed or doesn't exist
+				if (pageUrls) {
+					unpublishedLinks?.push(linkedFile ? linkedFile.path : `${linkpath} (missing)`);
+
+					const style = this.settings.unpublishedLinkStyle;
+					if (style === "text") {
+						link.replaceWith(document.createTextNode(link.textContent ?? ""));
+						return;
+					}
+					if (style === "span") {
+						const span = document.createElement("span");
+						span.className = "unpublished-link";
+						span.setAttribute("title", linkedFile ? "This page is not published" : "This page does not exist");
+						span.textContent = link.textContent;
+						link.replaceWith(span);
+						return;
+					}
+				}
+
 				// Convert [[note]] links to paths in the same slug folder
-				const cleanHref = href.replace(/^\//, "").replace(/\.html$/, "");
+				const cleanHref = linkpath.replace(/^\//, "").replace(/\.html$/, "");
 				const slug = this.generateSlug(cleanHref);
 				// Use absolute path with slug folder: /parent-slug/linked-page
 				if (parentSlug) {
-					link.setAttribute("href", `/${parentSlug}/${slug}`);
+					link.setAttribute("href", `/${parentSlug}/${slug}${fragment}`);
 				} else {
-					link.setAttribute("href", slug);
+					link.setAttribute("href", `${slug}${fragment}`);
 				}
 
 				link.removeAttribute("target");
@@ -390,8 +691,15 @@ export default class VercelPublisherPlugin extends Plugin {
 			}
 
 			if (src) {
+				// Point at the asset's unique deployed path when it resolves to a vault file
+				const asset = this.resolveRenderedAsset(src, sourcePath);
+				if (asset) {
+					img.setAttribute("src", getAssetUrl(asset, parentSlug));
+					return;
+				}
+
 				// Remove app:// protocol if present
-				let cleanSrc = src.replace(/^app:\/\/[^/]+\//, "");
+				const cleanSrc = src.replace(/^app:\/\/[^/]+\//, "");
 				// Extract just the filename from the path
 				const filename = cleanSrc.split("/").pop() || cleanSrc;
 
@@ -399,9 +707,10 @@ export default class VercelPublisherPlugin extends Plugin {
 			}
 		});
 
-		// Convert wiki-style embed spans to appropriate HTML tags based on MIME type
-		const embeds = div.querySelectorAll("span.internal-embed");
-		embeds.forEach((embed) => {
+		// Convert wiki-style embed spans to appropriate HTML tags based on MIME type,
+		// and render embedded notes inline
+		const embeds = Array.from(div.querySelectorAll("span.internal-embed"));
+		for (const embed of embeds) {
 			const src = embed.getAttribute("src");
 			const alt = embed.getAttribute("alt");
 
@@ -409,6 +718,20 @@ export default class VercelPublisherPlugin extends Plugin {
 			let filename = src || alt || embed.innerHTML.trim();
 
 			if (filename) {
+				const asset = src ? this.resolveAsset(src, sourcePath) : null;
+				if (asset && asset.extension === "md" && src) {
+					const { subpath } = parseLinktext(src.split("|")[0] ?? src);
+					embed.replaceWith(await this.renderTransclusion(asset, subpath, sourcePath, { ...context, headingIds }));
+					continue;
+				}
+
+				if (asset) {
+					// Create appropriate HTML element pointing at the asset's unique deployed path
+					const element = this.createElementForFile(asset.name, alt || undefined, getAssetUrl(asset, parentSlug));
+					embed.replaceWith(element);
+					continue;
+				}
+
 				// Remove app:// protocol if present
 				filename = filename.replace(/^app:\/\/[^/]+\//, "");
 				// Extract just the filename
@@ -418,15 +741,192 @@ export default class VercelPublisherPlugin extends Plugin {
 				const element = this.createElementForFile(filename, alt || undefined);
 				embed.replaceWith(element);
 			}
+		}
+
+		return div;
+	}
+
+	/**
+	 * Render an embedded note (whole note, a heading section or a block) inline
+	 */
+	async renderTransclusion(file: TFile, subpath: string, sourcePath: string, context: RenderContext): Promise<HTMLElement> {
+		const container = document.createElement("div");
+		container.className = "markdown-embed";
+		container.setAttribute("data-source", file.basename);
+
+		// Stop at cycles and overly deep nesting, like Obsidian does
+		const embedStack = [...(context.embedStack ?? []), sourcePath];
+		if (embedStack.includes(file.path) || embedStack.length > MAX_EMBED_DEPTH) {
+			container.classList.add("is-unresolved");
+			container.textContent = `${file.basename}${subpath}`;
+			return container;
+		}
+
+		context.embeddedFiles?.push(file);
+
+		// Notes marked "publish: false" are never transcluded into published pages
+		if (getPublishFrontmatter(this.app, file).publish === false) {
+			context.unpublishedLinks?.push(file.path);
+			container.classList.add("is-unresolved");
+			container.textContent = file.basename;
+			return container;
+		}
+
+		// Notes with their own password are only readable on their encrypted page, so the embed
+		// links there instead. Their text never ends up in the embedding page, its feeds or search.
+		if (getPublishFrontmatter(this.app, file).password) {
+			context.unpublishedLinks?.push(`${file.path} (password protected)`);
+			container.classList.add("is-unresolved");
+			const pageUrl = context.pageUrls?.get(file.path);
+			if (pageUrl) {
+				container.createEl("a", { text: file.basename, href: pageUrl, cls: "internal-link" });
+			} else {
+				container.textContent = file.basename;
+			}
+			return container;
+		}
+
+		const content = await this.app.vault.read(file);
+		const markdown = this.extractSubpath(file, content, subpath);
+		if (markdown === null) {
+			container.classList.add("is-unresolved");
+			container.textContent = `Unable to find "${subpath.replace(/^#/, "")}" in ${file.basename}`;
+			return container;
+		}
+
+		const rendered = await this.renderMarkdown(markdown, file.path, { ...context, embedStack });
+		const contentEl = document.createElement("div");
+		contentEl.className = "markdown-embed-content";
+		contentEl.append(...Array.from(rendered.childNodes));
+		container.appendChild(contentEl);
+
+		return container;
+	}
+
+	/**
+	 * Get the markdown of a note's heading section or block, or the whole note without frontmatter.
+	 * Returns null when the subpath doesn't exist.
+	 */
+	extractSubpath(file: TFile, content: string, subpath: string): string | null {
+		const cache = this.app.metadataCache.getFileCache(file);
+
+		if (!subpath) {
+			const frontmatterEnd = cache?.frontmatterPosition?.end.offset;
+			return frontmatterEnd !== undefined ? content.substring(frontmatterEnd) : content;
+		}
+
+		const resolved = cache ? resolveSubpath(cache, subpath) : null;
+		if (!resolved) {
+			return null;
+		}
+
+		return content.substring(resolved.start.offset, resolved.end?.offset ?? content.length);
+	}
+
+	/**
+	 * Generate the id of a heading, keeping non-latin letters so headings in any language get an anchor
+	 */
+	generateHeadingId(text: string): string {
+		return text
+			.trim()
+			.toLowerCase()
+			.replace(/[^\w\u00C0-\uFFFF\s-]/g, "")
+			.replace(/[\s_-]+/g, "-")
+			.replace(/^-|-$/g, "") || "section";
+	}
+
+	/**
+	 * Convert a link subpath ("#Heading", "#Parent#Child" or "#^block-id") to a URL fragment
+	 */
+	subpathToFragment(subpath: string): string {
+		if (!subpath) {
+			return "";
+		}
+
+		if (subpath.startsWith("#^")) {
+			return `#${encodeURIComponent(subpath.substring(1))}`;
+		}
+
+		// Nested heading links point at the last heading in the chain
+		const heading = subpath.split("#").filter(part => part.length > 0).pop();
+		return heading ? `#${this.generateHeadingId(heading)}` : "";
+	}
+
+	/**
+	 * Add ids to all headings, numbering repeated headings like "intro", "intro-1", "intro-2".
+	 * Counts are kept in `used`, so ids stay unique across separately rendered parts of a page.
+	 */
+	addHeadingIds(container: HTMLElement, used = new Map<string, number>()) {
+		container.querySelectorAll("h1, h2, h3, h4, h5, h6").forEach((heading) => {
+			const baseId = this.generateHeadingId(heading.getAttribute("data-heading") ?? heading.textContent ?? "");
+			const count = used.get(baseId) ?? 0;
+			used.set(baseId, count + 1);
+			heading.setAttribute("id", count === 0 ? baseId : `${baseId}-${count}`);
 		});
+	}
 
-		return div.innerHTML;
+	/**
+	 * Replace trailing " ^block-id" markers with invisible placeholders, outside code blocks,
+	 * so they survive rendering and can become anchors
+	 */
+	markBlockIds(markdown: string): string {
+		let fence: string | null = null;
+
+		return markdown.split("\n").map((line) => {
+			const fenceMatch = line.match(/^\s*(```|~~~)/);
+			if (fenceMatch?.[1]) {
+				if (fence === null) {
+					fence = fenceMatch[1];
+				} else if (fence === fenceMatch[1]) {
+					fence = null;
+				}
+				return line;
+			}
+
+			if (fence !== null) {
+				return line;
+			}
+
+			return line.replace(/(^|\s)\^([A-Za-z0-9-]+)\s*$/, `$1${BLOCK_ID_MARKER}block:$2${BLOCK_ID_MARKER}`);
+		}).join("\n");
+	}
+
+	/**
+	 * Turn block id placeholders into ids on the enclosing block, e.g. <p id="^abc123">
+	 */
+	addBlockIds(container: HTMLElement) {
+		const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+		const textNodes: Text[] = [];
+		while (walker.nextNode()) {
+			const node = walker.currentNode as Text;
+			if (node.data.includes(BLOCK_ID_MARKER)) {
+				textNodes.push(node);
+			}
+		}
+
+		for (const node of textNodes) {
+			const match = new RegExp(BLOCK_ID_REGEX.source).exec(node.data);
+			node.data = node.data.replace(BLOCK_ID_REGEX, "").replace(/\s+$/, "");
+
+			let block = node.parentElement?.closest("p, li, blockquote, td, th, h1, h2, h3, h4, h5, h6");
+			// A block id on its own line belongs to the block before it (tables, quotes, lists)
+			if (block?.tagName === "P" && block.textContent?.trim() === "" && block.previousElementSibling) {
+				const previous = block.previousElementSibling;
+				block.remove();
+				block = previous;
+			}
+
+			const id = match?.[1];
+			if (block && id && !block.id) {
+				block.setAttribute("id", `^${id}`);
+			}
+		}
 	}
 
 	/**
-	 * Find all assets (images, videos, etc.) referenced in a note
+	 * Find all assets (images, videos, etc.) referenced in a note, including those of notes it embeds
 	 */
-	async findAssets(file: TFile): Promise<TFile[]> {
+	async findAssets(file: TFile, embedStack: string[] = []): Promise<TFile[]> {
 		const assets: TFile[] = [];
 		const content = await this.app.vault.read(file);
 
@@ -441,7 +941,7 @@ export default class VercelPublisherPlugin extends Plugin {
 		while ((match = imageRegex.exec(content)) !== null) {
 			const assetPath = match[2];
 			if (assetPath && !assetPath.startsWith("http")) {
-				const assetFile = this.app.metadataCache.getFirstLinkpathDest(assetPath, file.path);
+				const assetFile = this.resolveAsset(this.decodeLinkpath(assetPath), file.path);
 				if (assetFile && !assets.includes(assetFile)) {
 					assets.push(assetFile);
 				}
@@ -453,16 +953,26 @@ export default class VercelPublisherPlugin extends Plugin {
 			const assetPath = match[1];
 			if (!assetPath) continue;
 
-			const assetFile = this.app.metadataCache.getFirstLinkpathDest(assetPath, file.path);
+			const assetFile = this.resolveAsset(assetPath, file.path);
+
+			// Embedded notes are rendered inline, so collect their assets instead (unless they are
+			// private or password protected, as those are not rendered inline)
+			if (assetFile?.extension === "md") {
+				const nestedStack = [...embedStack, file.path];
+				const frontmatter = getPublishFrontmatter(this.app, assetFile);
+				const isPrivate = frontmatter.publish === false || !!frontmatter.password;
+				if (!isPrivate && !nestedStack.includes(assetFile.path) && nestedStack.length <= MAX_EMBED_DEPTH) {
+					for (const nestedAsset of await this.findAssets(assetFile, nestedStack)) {
+						if (!assets.includes(nestedAsset)) {
+							assets.push(nestedAsset);
+						}
+					}
+				}
+				continue;
+			}
+
 			if (assetFile && !assets.includes(assetFile)) {
 				assets.push(assetFile);
-			} else if (!assetFile) {
-				// Try searching all files in vault
-				const allFiles = this.app.vault.getFiles();
-				const foundFile = allFiles.find(f => f.name === assetPath || f.path.endsWith(assetPath));
-				if (foundFile) {
-					assets.push(foundFile);
-				}
 			}
 		}
 
@@ -470,206 +980,755 @@ export default class VercelPublisherPlugin extends Plugin {
 	}
 
 	/**
-	 * Find all linked pages from the current note
+	 * Resolve an embed's link text (e.g. "image.png|300" or "Folder/image.png") to a vault file
 	 */
-	async findLinkedPages(file: TFile): Promise<TFile[]> {
-		const linkedFiles: TFile[] = [];
-		const content = await this.app.vault.read(file);
-
-		// Find all wiki-style links [[note]] or [[note|alias]]
-		const wikiLinkRegex = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
-		let match;
-
-		while ((match = wikiLinkRegex.exec(content)) !== null) {
-			const linkPath = match[1];
-			if (!linkPath) continue;
+	resolveAsset(linktext: string, sourcePath: string): TFile | null {
+		const linkpath = getLinkpath(linktext.split("|")[0] ?? linktext);
 
-			const linkedFile = this.app.metadataCache.getFirstLinkpathDest(linkPath, file.path);
-
-			if (linkedFile && linkedFile.extension === "md" && !linkedFiles.includes(linkedFile)) {
-				linkedFiles.push(linkedFile);
-			}
+		const assetFile = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+		if (assetFile) {
+			return assetFile;
 		}
 
-		return linkedFiles;
+		// Try searching all files in vault
+		return this.app.vault.getFiles().find(f => f.name === linkpath || f.path.endsWith(linkpath)) ?? null;
 	}
 
 	/**
-	 * Publish current page to Vercel
+	 * Resolve an img src produced by the markdown renderer (usually an app:// resource URL) to a vault file
 	 */
-	async publishCurrentPageToVercel() {
-		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!markdownView) {
-			new Notice("No active file");
-			return;
+	resolveRenderedAsset(src: string, sourcePath: string): TFile | null {
+		if (!src.startsWith("app://")) {
+			return this.resolveAsset(this.decodeLinkpath(src), sourcePath);
 		}
 
-		const file = markdownView.file;
-		if (!file) {
-			new Notice("No file found");
-			return;
-		}
+		// Only compare resource paths of files with a matching name
+		const resourcePath = src.split("?")[0] ?? src;
+		const filename = this.decodeLinkpath(resourcePath.split("/").pop() ?? "");
+		return this.app.vault.getFiles().find(f =>
+			f.name === filename && this.app.vault.getResourcePath(f).split("?")[0] === resourcePath
+		) ?? null;
+	}
 
-		// Show modal to confirm publishing
-		new PublishModal(this.app, this, file,
-			(slug: string) => {
-				void this.publishPageToVercel(file, slug);
-			},
-			() => {
-				void this.unpublishFromVercel(file);
-			}
-		).open();
+	private decodeLinkpath(linkpath: string): string {
+		try {
+			return decodeURIComponent(linkpath);
+		} catch {
+			return linkpath;
+		}
 	}
 
 	/**
-	 * Publish a page to Vercel - creates ONE deployment containing ALL published pages
+	 * Find all linked pages from a note, following links up to the configured depth and scope
 	 */
-	async publishPageToVercel(mainFile: TFile, customSlug?: string) {
-		// Validate settings
-		if (!this.settings.vercelApiToken) {
-			new Notice("Please set your Vercel API token in plugin settings");
-			return;
-		}
+	findLinkedPages(file: TFile): LinkGraphResult {
+		const graph = new LinkGraph(this.app, {
+			maxDepth: this.settings.linkDepth,
+			maxPages: this.settings.maxLinkedPages,
+			folders: this.settings.linkScopeFolders,
+			tags: this.settings.linkScopeTags
+		});
 
-		if (!this.settings.vercelProjectName) {
-			new Notice("Please set your Vercel project name in plugin settings");
-			return;
-		}
+		return graph.walk(file);
+	}
 
-		try {
-			const loadingNotice = new Notice("Publishing to Vercel...", 0);
+	/**
+	 * Build the files for a deployment containing ALL published pages and their linked pages.
+	 * Notes and assets that haven't changed since the last build are taken from the publish cache.
+	 */
+	async buildDeploymentFiles(loadingNotice: Notice, publishedPages = this.getProductionPages()): Promise<VercelFile[]> {
+		await this.publishCache.load();
 
-			// Determine the slug for the main file
-			const mainSlug = customSlug || this.generateSlug(mainFile.basename);
+		const templateGen = new TemplateGenerator(this.app);
+		const loaders = this.createPageLoaders("/");
+		const vercelFiles: VercelFile[] = [];
 
-			// Update or add ONLY the main file to publishedPages (not linked pages!)
-			const existingIndex = this.settings.publishedPages.findIndex(p => p.filePath === mainFile.path);
-			if (existingIndex >= 0) {
-				const existingPage = this.settings.publishedPages[existingIndex];
-				if (existingPage) {
-					existingPage.slug = mainSlug;
-					existingPage.publishedAt = Date.now();
-				}
-			} else {
-				this.settings.publishedPages.push({
-					filePath: mainFile.path,
-					slug: mainSlug,
-					publishedAt: Date.now()
-				});
-			}
+		// Linked pages whose slugs had to be disambiguated, and links to pages outside the deployment
+		const slugCollisions: string[] = [];
+		const unpublishedLinks: string[] = [];
 
-			loadingNotice.setMessage("Generating HTML for all published pages...");
+		// Entries for the site home page, or the designated home note's HTML
+		const siteIndex: SiteIndexEntry[] = [];
+		let homePageHtml: string | null = null;
 
-			// Generate HTML files for ALL published pages and their linked pages
-			const templateGen = new TemplateGenerator(this.app);
-			const vercelFiles: VercelFile[] = [];
+		// Published pages for the feeds, with absolute URLs on the site domain
+		const siteUrl = this.getSiteUrl();
+		const feedLinks = this.getFeedLinks();
+		const feedEntries: FeedEntry[] = [];
 
-			// Add Vercel configuration for clean URLs
-			const vercelConfig = {
-				cleanUrls: true,
-				trailingSlash: false
-			};
-			vercelFiles.push({
-				file: "vercel.json",
-				data: JSON.stringify(vercelConfig, null, 2),
-				encoding: "utf-8"
-			});
+		// Indexable pages for the sitemap, and URLs that get an X-Robots-Tag: noindex header
+		const sitemapEntries: SitemapEntry[] = [];
+		const noindexUrls: string[] = [];
 
-			// Process each published page
-			for (const publishedPage of this.settings.publishedPages) {
-				const file = this.app.vault.getAbstractFileByPath(publishedPage.filePath);
+		// Every deployed page that is not excluded from search
+		const searchIndexUrl = this.settings.search ? `/${SEARCH_INDEX_PATH}` : undefined;
+		const searchDocuments: SearchDocument[] = [];
 
-				if (!(file instanceof TFile)) {
-					// File was deleted from vault but still in publishedPages
-					continue;
-				}
+		// Keys derived from frontmatter passwords in this build
+		const derivedKeys = new Map<string, Promise<PageKey>>();
 
-				const pageSlug = publishedPage.slug;
+		// Work out every slug folder first, so backlinks can come from anywhere in the deployment
+		const folders: SlugFolder[] = [];
+		for (const publishedPage of publishedPages) {
+			const file = this.app.vault.getAbstractFileByPath(publishedPage.filePath);
 
-				// Find linked pages from this published page
-				loadingNotice.setMessage(`Processing ${file.basename} and its linked pages...`);
-				const linkedFiles = await this.findLinkedPages(file);
-				const allFilesForThisPage = [file, ...linkedFiles];
+			if (!(file instanceof TFile)) {
+				// File was deleted from vault but still in publishedPages
+				continue;
+			}
 
-				// Collect pages and assets for this published page
-				const pagesForThisSlug: PageData[] = [];
-				const assetsForThisSlug: TFile[] = [];
+			const pageSlug = publishedPage.slug;
 
-				for (const pageFile of allFilesForThisPage) {
-					// Generate HTML for this page
-					const content = await this.app.vault.read(pageFile);
-					const htmlContent = await this.markdownToHtml(content, pageFile.path, pageSlug);
-					pagesForThisSlug.push({
-						title: pageFile.basename,
-						content: htmlContent,
-						slug: pageFile === file ? pageSlug : this.generateSlug(pageFile.basename)
-					});
+			// A password protects the page and its linked pages. Frontmatter passwords are derived
+			// again on every build, passwords set in the publish modal only live on as a derived key.
+			const pageKey = await this.getPageKey(file, publishedPage.protection, derivedKeys);
 
-					// Collect assets for this page
-					const assets = await this.findAssets(pageFile);
-					for (const asset of assets) {
-						if (!assetsForThisSlug.includes(asset)) {
-							assetsForThisSlug.push(asset);
-						}
-					}
-				}
+			// Find linked pages from this published page
+			loadingNotice.setMessage(`Finding the pages linked from ${file.basename}...`);
+			const linkedFiles = this.findLinkedPages(file).pages;
 
-				// Add main page: /slug/index.html
-				const mainPageData = pagesForThisSlug.find(p => p.slug === pageSlug);
-				if (mainPageData) {
-					const html = templateGen.generateHTML(mainPageData);
-					vercelFiles.push({
-						file: `${pageSlug}/index.html`,
-						data: html,
-						encoding: "utf-8"
-					});
-				}
+			// Give linked pages unique slugs and tell the renderer where every page lives
+			const { slugs, collisions } = await this.assignPageSlugs(linkedFiles);
 
-				// Add linked pages: /slug/page-name.html
-				for (const linkedPage of pagesForThisSlug) {
-					if (linkedPage.slug !== pageSlug) {
-						const html = templateGen.generateHTML(linkedPage);
-						vercelFiles.push({
-							file: `${pageSlug}/${linkedPage.slug}.html`,
-							data: html,
-							encoding: "utf-8"
-						});
-					}
-				}
+			// Linked notes with their own frontmatter password are encrypted with it
+			const pageKeys = new Map<string, PageKey | undefined>([[file.path, pageKey]]);
+			for (const linkedFile of linkedFiles) {
+				pageKeys.set(linkedFile.path, await this.getPageKey(linkedFile, pageKey, derivedKeys));
+			}
 
-				// Add assets under this slug folder: /slug/asset.png
-				for (const asset of assetsForThisSlug) {
-					const arrayBuffer = await this.app.vault.readBinary(asset);
-					const base64 = arrayBufferToBase64(arrayBuffer);
-					vercelFiles.push({
-						file: `${pageSlug}/${asset.name}`,
-						data: base64,
-						encoding: "base64"
-					});
-				}
+			const pageUrls = new Map<string, string>([[file.path, `/${pageSlug}`]]);
+			for (const [path, slug] of slugs) {
+				pageUrls.set(path, `/${pageSlug}/${slug}`);
+			}
+			for (const collision of collisions) {
+				slugCollisions.push(`${collision.join(", ")} (under /${pageSlug})`);
 			}
 
-			loadingNotice.setMessage("Deploying to Vercel...");
+			folders.push({ publishedPage, file, pageKey, linkedFiles, slugs, pageUrls, pageKeys });
+		}
+
+		// Public pages of the whole deployment, for backlinks. A published page's own URL comes
+		// first, then the first slug folder a linked note appears in.
+		const publicUrls = new Map<string, string>();
+		for (const { publishedPage, file, pageKey } of folders) {
+			if (!pageKey && !publicUrls.has(file.path)) {
+				publicUrls.set(file.path, `/${publishedPage.slug}`);
+			}
+		}
+		for (const { pageUrls, pageKeys } of folders) {
+			for (const [path, url] of pageUrls) {
+				if (!pageKeys.get(path) && !publicUrls.has(path)) {
+					publicUrls.set(path, url);
+				}
+			}
+		}
+
+		// Process each published page
+		for (const { publishedPage, file, pageKey, linkedFiles, slugs, pageUrls, pageKeys } of folders) {
+			const pageSlug = publishedPage.slug;
+			const allFilesForThisPage = [file, ...linkedFiles];
+			loadingNotice.setMessage(`Processing ${file.basename} and its linked pages...`);
+
+			// Rendered links depend on the page URLs and link style, so they are part of the cache key
+			const renderContext: RenderContext = { parentSlug: pageSlug, pageUrls };
+			const cacheContext = `${pageSlug}:${this.settings.unpublishedLinkStyle}:` +
+				await this.generateHashSlug(JSON.stringify([...pageUrls]));
+
+			// Collect pages and assets for this published page, main page first
+			const pagesForThisSlug: PageData[] = [];
+			const assetsForThisSlug: TFile[] = [];
+
+			for (const pageFile of allFilesForThisPage) {
+				// Generate HTML for this page, unless it is unchanged since the last build
+				let cached = this.publishCache.getPage(pageFile, cacheContext);
+				if (!cached) {
+					const content = await this.app.vault.read(pageFile);
+					const pageUnpublishedLinks: string[] = [];
+					const embeddedFiles: TFile[] = [];
+					const headings: TocEntry[] = [];
+					const htmlContent = await this.markdownToHtml(content, pageFile.path, {
+						...renderContext,
+						unpublishedLinks: pageUnpublishedLinks,
+						embeddedFiles,
+						headings
+					});
+					const assets = await this.findAssets(pageFile);
+					cached = this.publishCache.setPage(pageFile, cacheContext, {
+						html: htmlContent,
+						assets: assets.map(a => a.path),
+						unpublishedLinks: pageUnpublishedLinks,
+						dependencies: Object.fromEntries(embeddedFiles.map(f => [f.path, f.stat.mtime])),
+						headings
+					});
+				}
+
+				for (const target of cached.unpublishedLinks) {
+					const entry = `${pageFile.path} → ${target}`;
+					if (!unpublishedLinks.includes(entry)) {
+						unpublishedLinks.push(entry);
+					}
+				}
+
+				const slug = pageFile === file ? pageSlug : slugs.get(pageFile.path) ?? this.generateSlug(pageFile.basename);
+				const pageData = await this.createPageData(pageFile, cached.html, slug, loaders, cached.headings);
+				const pageFileKey = pageKeys.get(pageFile.path);
+				if (this.settings.backlinks) {
+					// Public pages link from anywhere in the deployment, preferably within this slug folder.
+					// Snippets of protected pages only show up on pages encrypted with the same key.
+					const backlinkUrls = new Map([...publicUrls, ...[...pageUrls].filter(([path]) => {
+						const sourceKey = pageKeys.get(path);
+						return !sourceKey || sourceKey === pageFileKey;
+					})]);
+					pageData.backlinks = await findBacklinks(this.app, pageFile, backlinkUrls);
+				}
+				pageData.siteTitle = this.settings.siteTitle || undefined;
+				pageData.feedLinks = feedLinks;
+				pageData.canonicalUrl = `${siteUrl}${pageUrls.get(pageFile.path) ?? `/${pageSlug}`}`;
+				pageData.searchIndexUrl = searchIndexUrl;
+
+				// Nothing from a protected page may leak outside its encrypted body
+				if (pageFileKey) {
+					pageData.noindex = true;
+					pageData.description = undefined;
+					pageData.author = undefined;
+				} else {
+					// Preview image: frontmatter first, then the first image on the page
+					const image = this.resolvePreviewImage(pageFile);
+					if (image instanceof TFile) {
+						if (!assetsForThisSlug.includes(image)) {
+							assetsForThisSlug.push(image);
+						}
+						pageData.image = `${siteUrl}${getAssetUrl(image, pageSlug)}`;
+					} else {
+						pageData.image = image ?? this.getFirstImage(cached.html, siteUrl);
+					}
+				}
+
+				if (searchIndexUrl && !pageFileKey && getPublishFrontmatter(this.app, pageFile).search !== false) {
+					searchDocuments.push(createSearchDocument(
+						pageData.title,
+						pageUrls.get(pageFile.path) ?? `/${pageSlug}`,
+						cached.headings.map(heading => heading.text),
+						cached.html
+					));
+				}
+
+				pagesForThisSlug.push(pageData);
+
+				// Collect assets for this page
+				for (const assetPath of cached.assets) {
+					const asset = this.app.vault.getAbstractFileByPath(assetPath);
+					if (asset instanceof TFile && !assetsForThisSlug.includes(asset)) {
+						assetsForThisSlug.push(asset);
+					}
+				}
+			}
+
+			// Every page links to the other pages in its slug folder. Titles of protected pages
+			// are only shown on pages encrypted with the same key.
+			const folderKeys = allFilesForThisPage.map(pageFile => pageKeys.get(pageFile.path));
+			const navigation = pagesForThisSlug.map((page, index) => ({
+				title: page.title,
+				url: index === 0 ? `/${pageSlug}` : `/${pageSlug}/${page.slug}`
+			}));
+			pagesForThisSlug.forEach((page, index) => {
+				page.navigation = navigation.map((item, itemIndex) => {
+					const itemKey = folderKeys[itemIndex];
+					const title = itemKey && itemKey !== folderKeys[index] ? PROTECTED_PAGE_TITLE : item.title;
+					return { ...item, title, active: itemIndex === index };
+				});
+
+				const url = navigation[index]?.url ?? `/${pageSlug}`;
+				if (page.noindex) {
+					noindexUrls.push(url);
+				} else {
+					sitemapEntries.push({ url, modified: page.modified ?? Date.now() });
+				}
+			});
+
+			for (const [index, page] of pagesForThisSlug.entries()) {
+				const key = folderKeys[index];
+				if (key) {
+					page.encryptedBody = await encryptHtml(templateGen.renderBody(page), key);
+				}
+			}
+
+			const [mainPageData, ...linkedPagesData] = pagesForThisSlug;
+
+			// Add main page: /slug/index.html
+			if (mainPageData) {
+				const html = templateGen.generateHTML(mainPageData);
+				vercelFiles.push({
+					file: `${pageSlug}/index.html`,
+					data: html
+				});
+
+				if (publishedPage.filePath === this.settings.homePage) {
+					homePageHtml = html;
+					if (mainPageData.noindex) {
+						noindexUrls.push("/");
+					}
+				}
+
+				// Protected pages are not listed on the home page or in feeds
+				if (!pageKey) {
+					siteIndex.push({
+						title: mainPageData.title,
+						url: `/${pageSlug}`,
+						description: mainPageData.description,
+						publishedAt: publishedPage.publishedAt
+					});
+
+					feedEntries.push({
+						title: mainPageData.title,
+						url: `${siteUrl}/${pageSlug}`,
+						publishedAt: publishedPage.publishedAt,
+						updatedAt: file.stat.mtime,
+						summary: mainPageData.description ?? summarizeHtml(mainPageData.content),
+						contentHtml: this.settings.feedContent === "full" ? absolutizeUrls(mainPageData.content, siteUrl) : undefined
+					});
+				}
+			}
+
+			// Add linked pages: /slug/page-name.html
+			for (const linkedPage of linkedPagesData) {
+				const html = templateGen.generateHTML(linkedPage);
+				vercelFiles.push({
+					file: `${pageSlug}/${linkedPage.slug}.html`,
+					data: html
+				});
+			}
+
+			// Add assets under this slug folder: /slug/assets/<vault path>
+			// Only their digests are needed unless Vercel doesn't have them yet
+			for (const asset of assetsForThisSlug) {
+				const digest = await this.publishCache.getAssetDigest(asset);
+				vercelFiles.push({
+					file: `${pageSlug}/${getAssetPath(asset)}`,
+					data: () => this.app.vault.readBinary(asset),
+					sha: digest.sha,
+					size: digest.size
+				});
+			}
+		}
+
+		// Add the site home page: /index.html
+		if (!homePageHtml && this.settings.noindex) {
+			noindexUrls.push("/");
+		}
+		vercelFiles.push({
+			file: "index.html",
+			data: homePageHtml ?? templateGen.generateHTML(await this.createSiteIndexPage(siteIndex, templateGen, loaders))
+		});
+
+		// Add the search index: /_site/search.json
+		if (searchIndexUrl) {
+			vercelFiles.push({
+				file: SEARCH_INDEX_PATH,
+				data: generateSearchIndex(searchDocuments)
+			});
+		}
+
+		// Add the sitemap and crawler rules: /sitemap.xml and /robots.txt
+		if (!noindexUrls.includes("/")) {
+			const latest = sitemapEntries.reduce((max, entry) => Math.max(max, entry.modified), 0);
+			sitemapEntries.unshift({ url: "/", modified: latest || Date.now() });
+		}
+		vercelFiles.push({
+			file: SITEMAP_PATH,
+			data: generateSitemap(siteUrl, sitemapEntries)
+		});
+		vercelFiles.push({
+			file: ROBOTS_PATH,
+			data: generateRobotsTxt(siteUrl, this.settings.robotsTxt)
+		});
+
+		// Add Vercel configuration for clean URLs, with a noindex header for pages hidden from search engines
+		const vercelConfig = {
+			cleanUrls: true,
+			trailingSlash: false,
+			headers: noindexUrls.map(source => ({
+				source,
+				headers: [{ key: "X-Robots-Tag", value: "noindex" }]
+			}))
+		};
+		vercelFiles.push({
+			file: "vercel.json",
+			data: JSON.stringify(vercelConfig, null, 2)
+		});
+
+		// Add the feeds: /feed.xml and /feed.json
+		if (this.settings.feeds) {
+			const feedOptions = { title: this.getSiteTitle(), siteUrl };
+			vercelFiles.push({
+				file: FEED_XML_PATH,
+				data: generateXmlFeed(this.settings.feedFormat, feedOptions, feedEntries)
+			});
+			vercelFiles.push({
+				file: FEED_JSON_PATH,
+				data: generateJsonFeed(feedOptions, feedEntries)
+			});
+		}
+
+		// Add each theme's stylesheet once, shared by all pages using it: /_site/themes/name.css
+		for (const theme of loaders.themes.getUsedThemes()) {
+			vercelFiles.push({
+				file: getThemeStylesheetPath(theme.name),
+				data: templateGen.generateStylesheet(theme, this.settings.fonts)
+			});
+		}
+
+		// Add the bundled font files once: /_site/fonts/name.woff2
+		for (const font of getFontFiles(this.settings.fonts)) {
+			vercelFiles.push({
+				file: font.path,
+				data: font.data
+			});
+		}
+
+		await this.publishCache.save();
+
+		if (slugCollisions.length > 0) {
+			console.warn("Linked pages with colliding slugs:", slugCollisions);
+			new Notice(`Some linked pages share a name and were given distinct URLs:\n${slugCollisions.join("\n")}`, 10000);
+		}
+
+		if (unpublishedLinks.length > 0) {
+			this.reportUnpublishedLinks(unpublishedLinks);
+		}
+
+		return vercelFiles;
+	}
+
+	/**
+	 * Page data for the generated home page listing all published pages
+	 */
+	async createSiteIndexPage(entries: SiteIndexEntry[], templateGen: TemplateGenerator, loaders: PageLoaders): Promise<PageData> {
+		const theme = await loaders.themes.useTheme(this.settings.theme);
+		const layout = this.settings.layout ? await loaders.layouts.loadLayout(this.settings.layout) : null;
+
+		return {
+			title: this.settings.siteTitle || "Published pages",
+			content: templateGen.renderPageList(entries),
+			slug: "",
+			canonicalUrl: `${this.getSiteUrl()}/`,
+			searchIndexUrl: this.settings.search ? `/${SEARCH_INDEX_PATH}` : undefined,
+			author: this.settings.author || undefined,
+			theme,
+			stylesheetUrl: `${loaders.urlPrefix}${getThemeStylesheetPath(theme.name)}`,
+			layout: layout ?? undefined,
+			colorSchemeToggle: this.settings.colorSchemeToggle,
+			noindex: this.settings.noindex,
+			feedLinks: this.getFeedLinks()
+		};
+	}
+
+	/**
+	 * Plain text of a page's first paragraph, used when a note has no description
+	 */
+	getFirstParagraph(html: string): string | undefined {
+		const match = /<p[^>]*>([\s\S]*?)<\/p>/i.exec(html);
+		return match?.[1] ? summarizeHtml(match[1]) || undefined : undefined;
+	}
+
+	/**
+	 * Absolute URL of the first image in rendered HTML
+	 */
+	getFirstImage(html: string, siteUrl: string): string | undefined {
+		const src = /<img[^>]+src="([^"]+)"/i.exec(html)?.[1];
+		if (!src || src.startsWith("data:")) {
+			return undefined;
+		}
+		return src.startsWith("/") ? `${siteUrl}${src}` : src;
+	}
+
+	/**
+	 * The "image" frontmatter key: an external URL, or the vault image it points to
+	 */
+	resolvePreviewImage(file: TFile): string | TFile | undefined {
+		const image = getPublishFrontmatter(this.app, file).image;
+		if (!image) {
+			return undefined;
+		}
+		if (/^https?:\/\//.test(image)) {
+			return image;
+		}
+
+		const linkpath = image.replace(/^!?\[\[|\]\]$/g, "").split("|")[0] ?? "";
+		const asset = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(linkpath), file.path);
+		return asset && asset.extension !== "md" ? asset : undefined;
+	}
+
+	/**
+	 * Base URL of the deployed site, without a trailing slash
+	 */
+	getSiteUrl(): string {
+		return `https://${this.settings.siteDomain || `${this.settings.vercelProjectName}.vercel.app`}`;
+	}
+
+	getSiteTitle(): string {
+		return this.settings.siteTitle || this.settings.vercelProjectName;
+	}
+
+	getFeedLinks(): FeedLink[] {
+		if (!this.settings.feeds) {
+			return [];
+		}
+
+		const title = this.getSiteTitle();
+		return [
+			{
+				type: this.settings.feedFormat === "rss" ? "application/rss+xml" : "application/atom+xml",
+				title,
+				href: `/${FEED_XML_PATH}`
+			},
+			{
+				type: "application/feed+json",
+				title,
+				href: `/${FEED_JSON_PATH}`
+			}
+		];
+	}
+
+	/**
+	 * Post-build report of links that point to notes outside the deployment
+	 */
+	reportUnpublishedLinks(unpublishedLinks: string[]) {
+		const maxListed = 10;
+		console.warn("Links to unpublished, missing or password protected notes:", unpublishedLinks);
+
+		const listed = unpublishedLinks.slice(0, maxListed).join("\n");
+		const more = unpublishedLinks.length > maxListed
+			? `\n...and ${unpublishedLinks.length - maxListed} more (see developer console)`
+			: "";
+		new Notice(`${unpublishedLinks.length} link(s) point to unpublished, missing or password protected notes:\n${listed}${more}`, 15000);
+	}
+
+	/**
+	 * Build and deploy ALL published pages, wait until the deployment is live,
+	 * then point them at the new deployment
+	 */
+	async deployPublishedPages(loadingNotice: Notice, trigger?: TFile): Promise<DeploymentResponse> {
+		const vercelFiles = await this.buildDeploymentFiles(loadingNotice);
+
+		loadingNotice.setMessage("Deploying to Vercel...");
+
+		// Deploy to Vercel
+		const vercelApi = new VercelApi(
+			this.settings.vercelApiToken,
+			this.settings.vercelProjectName
+		);
+
+		// The metadata shows up in the deployment history, also on other devices
+		const productionPages = this.getProductionPages();
+		const deployment = await vercelApi.deploy(vercelFiles, {
+			pages: String(productionPages.length),
+			...(trigger ? { trigger: trigger.path } : {})
+		});
+		await this.trackDeployment(vercelApi, deployment, loadingNotice);
+
+		// After a rollback, new deployments only go live once promoted
+		if (this.settings.rolledBack) {
+			await vercelApi.promoteDeployment(deployment.id);
+			this.settings.rolledBack = false;
+		}
+
+		// Update ALL published pages to reference the new deployment
+		for (const publishedPage of productionPages) {
+			publishedPage.deploymentId = deployment.id;
+		}
+
+		this.recordDeployment(deployment.id, trigger);
+		await this.saveSettings();
+
+		return deployment;
+	}
+
+	/**
+	 * Published pages that are in production, leaving out pages that were only previewed
+	 */
+	getProductionPages(): PublishedPage[] {
+		return this.settings.publishedPages.filter(page => !page.previewOnly);
+	}
+
+	/**
+	 * Remember what is now in production, so a rollback can restore it
+	 */
+	recordDeployment(deploymentId: string, trigger?: TFile) {
+		this.settings.deploymentHistory = [{
+			deploymentId,
+			createdAt: Date.now(),
+			trigger: trigger?.path,
+			publishedPages: this.getProductionPages().map(page => this.withoutPreview(page))
+		}, ...this.settings.deploymentHistory].slice(0, MAX_DEPLOYMENT_HISTORY);
+	}
+
+	/**
+	 * Copy of a published page without its preview state
+	 */
+	withoutPreview(page: PublishedPage): PublishedPage {
+		const copy = structuredClone(page);
+		delete copy.previewOnly;
+		delete copy.preview;
+		return copy;
+	}
+
+	/**
+	 * Follow a deployment until it is live, showing its progress in the notice and the status bar.
+	 * Throws with the end of the build log if the deployment fails.
+	 */
+	async trackDeployment(vercelApi: VercelApi, deployment: DeploymentResponse, loadingNotice: Notice) {
+		const statusBarItem = this.addStatusBarItem();
+		const showProgress = (readyState: string) => {
+			const message = DEPLOYMENT_PROGRESS[readyState] ?? `Deployment ${readyState.toLowerCase()}...`;
+			loadingNotice.setMessage(message);
+			statusBarItem.setText(`Vercel: ${message}`);
+		};
+
+		try {
+			showProgress(deployment.readyState);
+			await vercelApi.waitForDeployment(deployment.id, showProgress);
+			deployment.readyState = "READY";
+		} finally {
+			statusBarItem.remove();
+		}
+	}
+
+	/**
+	 * Roll the site back to an earlier production deployment, and restore the published pages
+	 * recorded for it so the next publish builds on that state
+	 */
+	async rollbackToDeployment(deploymentId: string) {
+		try {
+			const loadingNotice = new Notice("Rolling back...", 0);
 
-			// Deploy to Vercel
 			const vercelApi = new VercelApi(
 				this.settings.vercelApiToken,
 				this.settings.vercelProjectName
 			);
+			await vercelApi.promoteDeployment(deploymentId);
 
-			const deployment = await vercelApi.deploy(vercelFiles);
-
-			// Update ALL published pages to reference the new deployment
-			for (const publishedPage of this.settings.publishedPages) {
-				publishedPage.deploymentId = deployment.id;
+			const record = this.settings.deploymentHistory.find(r => r.deploymentId === deploymentId);
+			if (record) {
+				this.settings.publishedPages = structuredClone(record.publishedPages);
 			}
+			this.settings.rolledBack = true;
 			await this.saveSettings();
 
+			loadingNotice.hide();
+			new Notice(record
+				? `Rolled back to the deployment of ${new Date(record.createdAt).toLocaleString()} with ${record.publishedPages.length} page(s)`
+				: "Rolled back. This deployment was not made on this device, so the list of published pages was kept.",
+			10000);
+		} catch (error) {
+			console.error("Vercel rollback error:", error);
+			const errorMessage = error instanceof Error ? error.message : "Unknown error";
+			new Notice(`Failed to roll back: ${errorMessage}`, 10000);
+		}
+	}
+
+	/**
+	 * The key that encrypts a page: from its own frontmatter password, else the key of the published
+	 * page it is deployed under. Each password is derived once per build, as deriving is slow on purpose.
+	 */
+	getPageKey(file: TFile, inherited: PageKey | undefined, derivedKeys: Map<string, Promise<PageKey>>): Promise<PageKey | undefined> {
+		const password = getPublishFrontmatter(this.app, file).password;
+		if (!password) {
+			return Promise.resolve(inherited);
+		}
+
+		let key = derivedKeys.get(password);
+		if (!key) {
+			key = derivePageKey(password);
+			derivedKeys.set(password, key);
+		}
+		return key;
+	}
+
+	/**
+	 * Generate a short, stable slug from a hash of the given text (e.g. the file path)
+	 */
+	async generateHashSlug(text: string): Promise<string> {
+		const encoder = new TextEncoder();
+		const data = encoder.encode(text);
+		const hashBuffer = await window.crypto.subtle.digest("SHA-256", data);
+		const hashArray = Array.from(new Uint8Array(hashBuffer));
+		const hashHex = hashArray.map(b => b.toString(16).padStart(2, "0")).join("");
+		return hashHex.substring(0, 8);
+	}
+
+	/**
+	 * Publish current page to Vercel
+	 */
+	async publishCurrentPageToVercel() {
+		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!markdownView) {
+			new Notice("No active file");
+			return;
+		}
+
+		const file = markdownView.file;
+		if (!file) {
+			new Notice("No file found");
+			return;
+		}
+
+		// Show modal to confirm publishing
+		this.openPublishModal(file);
+	}
+
+	openPublishModal(file: TFile) {
+		new PublishModal(this.app, this, file, {
+			onPublish: (slug: string, password?: string | null) => {
+				void this.publishPageToVercel(file, slug, password);
+			},
+			onPreview: (slug: string, password?: string | null) => {
+				void this.publishPagePreview(file, slug, password);
+			},
+			onPromote: () => {
+				void this.promotePreview(file);
+			},
+			onUnpublish: () => {
+				void this.unpublishFromVercel(file);
+			}
+		}).open();
+	}
+
+	/**
+	 * Publish a page to Vercel - creates ONE deployment containing ALL published pages
+	 */
+	async publishPageToVercel(mainFile: TFile, customSlug?: string, password?: string | null) {
+		// Validate settings
+		if (!this.settings.vercelApiToken) {
+			new Notice("Please set your Vercel API token in plugin settings");
+			return;
+		}
+
+		if (!this.settings.vercelProjectName) {
+			new Notice("Please set your Vercel project name in plugin settings");
+			return;
+		}
+
+		try {
+			const loadingNotice = new Notice("Publishing to Vercel...", 0);
+
+			// Determine the slug for the main file
+			const mainSlug = customSlug || this.generateSlug(getPublishFrontmatter(this.app, mainFile).slug ?? mainFile.basename);
+
+			// Update or add ONLY the main file to publishedPages (not linked pages!).
+			// Publishing straight to production supersedes any preview of the page.
+			const publishedPage = await this.updatePublishedPage(this.settings.publishedPages, mainFile, mainSlug, password, loadingNotice);
+			delete publishedPage.previewOnly;
+			delete publishedPage.preview;
+
+			loadingNotice.setMessage("Generating HTML for all published pages...");
+
+			await this.deployPublishedPages(loadingNotice, mainFile);
+
 			loadingNotice.hide();
 
 			// Show success message with the main page URL
-			const productionUrl = `${this.settings.vercelProjectName}.vercel.app`;
-			const pageUrl = `https://${productionUrl}/${mainSlug}/`;
+			const pageUrl = `${this.getSiteUrl()}/${mainSlug}/`;
 			new Notice(`Successfully published!\nPage URL: ${pageUrl}`, 15000);
 
 		} catch (error) {
@@ -679,6 +1738,258 @@ export default class VercelPublisherPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Update or add a page in a list of published pages, with its slug and password
+	 */
+	async updatePublishedPage(pages: PublishedPage[], file: TFile, slug: string, password: string | null | undefined, loadingNotice: Notice): Promise<PublishedPage> {
+		let publishedPage = pages.find(p => p.filePath === file.path);
+		if (publishedPage) {
+			publishedPage.slug = slug;
+			publishedPage.publishedAt = Date.now();
+		} else {
+			publishedPage = {
+				filePath: file.path,
+				slug,
+				publishedAt: Date.now()
+			};
+			pages.push(publishedPage);
+		}
+
+		// Only a key derived from the password is kept, never the password itself
+		if (password === null) {
+			delete publishedPage.protection;
+		} else if (password) {
+			loadingNotice.setMessage("Deriving the page key...");
+			publishedPage.protection = await derivePageKey(password);
+		}
+
+		return publishedPage;
+	}
+
+	/**
+	 * Publish a preview of a page: a deployment with ALL published pages and this page's changes,
+	 * on its own URL. Production stays as it is until the preview is promoted.
+	 */
+	async publishPagePreview(mainFile: TFile, customSlug?: string, password?: string | null) {
+		// Validate settings
+		if (!this.settings.vercelApiToken || !this.settings.vercelProjectName) {
+			new Notice("Please set your API token and project name in plugin settings");
+			return;
+		}
+
+		try {
+			const loadingNotice = new Notice("Publishing a preview...", 0);
+
+			const mainSlug = customSlug || this.generateSlug(getPublishFrontmatter(this.app, mainFile).slug ?? mainFile.basename);
+
+			// The preview holds the production pages with this page's changes applied
+			const previewPages = this.getProductionPages().map(page => this.withoutPreview(page));
+			await this.updatePublishedPage(previewPages, mainFile, mainSlug, password, loadingNotice);
+
+			loadingNotice.setMessage("Generating HTML for all published pages...");
+			const vercelFiles = await this.buildDeploymentFiles(loadingNotice, previewPages);
+
+			loadingNotice.setMessage("Deploying the preview to Vercel...");
+			const vercelApi = new VercelApi(
+				this.settings.vercelApiToken,
+				this.settings.vercelProjectName
+			);
+			// Staged as a production deployment, so promoting it only moves the domains
+			const deployment = await vercelApi.deploy(vercelFiles, {
+				pages: String(previewPages.length),
+				trigger: mainFile.path,
+				staged: "true"
+			}, true);
+			await this.trackDeployment(vercelApi, deployment, loadingNotice);
+
+			// Track the preview on the page, added as preview-only if it is not in production yet
+			let publishedPage = this.settings.publishedPages.find(p => p.filePath === mainFile.path);
+			if (!publishedPage) {
+				publishedPage = {
+					filePath: mainFile.path,
+					slug: mainSlug,
+					publishedAt: Date.now(),
+					previewOnly: true
+				};
+				this.settings.publishedPages.push(publishedPage);
+			}
+			publishedPage.preview = {
+				deploymentId: deployment.id,
+				url: deployment.url,
+				createdAt: Date.now(),
+				publishedPages: previewPages.map(page => ({ ...page, deploymentId: deployment.id }))
+			};
+			await this.saveSettings();
+
+			loadingNotice.hide();
+			new Notice(`Preview published! Review it, then promote it from the publish dialog.\nPreview URL: https://${deployment.url}/${mainSlug}/`, 15000);
+
+		} catch (error) {
+			console.error("Vercel preview error:", error);
+			const errorMessage = error instanceof Error ? error.message : "Unknown error";
+			new Notice(`Failed to publish preview: ${errorMessage}`, 10000);
+		}
+	}
+
+	/**
+	 * Promote a page's preview to production: that exact deployment goes live,
+	 * and the published pages it holds become the published pages
+	 */
+	async promotePreview(file: TFile) {
+		const preview = this.settings.publishedPages.find(p => p.filePath === file.path)?.preview;
+		if (!preview) {
+			new Notice("This page has no preview to promote");
+			return;
+		}
+
+		// Promoting puts the preview's pages live as they are, so production must not have moved on
+		if (this.productionChangedSince(preview, file)) {
+			new Notice("Production changed since this preview was published. Publish a new preview, then promote it.", 10000);
+			return;
+		}
+
+		try {
+			const loadingNotice = new Notice("Promoting the preview to production...", 0);
+
+			const vercelApi = new VercelApi(
+				this.settings.vercelApiToken,
+				this.settings.vercelProjectName
+			);
+			await vercelApi.promoteDeployment(preview.deploymentId);
+
+			// Previews of other pages are kept until they are promoted or superseded
+			const pages = structuredClone(preview.publishedPages);
+			for (const page of this.settings.publishedPages) {
+				if (page.filePath === file.path || !page.preview) {
+					continue;
+				}
+				const promoted = pages.find(p => p.filePath === page.filePath);
+				if (promoted) {
+					promoted.preview = page.preview;
+				} else {
+					pages.push({ ...page, previewOnly: true });
+				}
+			}
+			this.settings.publishedPages = pages;
+			this.settings.rolledBack = false;
+			this.recordDeployment(preview.deploymentId, file);
+			await this.saveSettings();
+
+			loadingNotice.hide();
+			const slug = pages.find(p => p.filePath === file.path)?.slug;
+			new Notice(`Preview promoted to production!\nPage URL: ${this.getSiteUrl()}/${slug ? `${slug}/` : ""}`, 15000);
+
+		} catch (error) {
+			console.error("Vercel promote error:", error);
+			const errorMessage = error instanceof Error ? error.message : "Unknown error";
+			new Notice(`Failed to promote preview: ${errorMessage}`, 10000);
+		}
+	}
+
+	/**
+	 * Whether production was published to, or its pages changed, after a page's preview was built.
+	 * The previewed page itself may differ, as that is what the preview changes.
+	 */
+	productionChangedSince(preview: PagePreview, file: TFile): boolean {
+		if (this.settings.deploymentHistory.some(record => record.createdAt > preview.createdAt)) {
+			return true;
+		}
+
+		const production = this.getProductionPages().filter(page => page.filePath !== file.path);
+		const previewed = preview.publishedPages.filter(page => page.filePath !== file.path);
+		return production.length !== previewed.length || production.some(page => {
+			const previewedPage = previewed.find(p => p.filePath === page.filePath);
+			return !previewedPage || previewedPage.slug !== page.slug || page.publishedAt > preview.createdAt;
+		});
+	}
+
+	/**
+	 * Reconcile publishedPages with the vault's frontmatter:
+	 * notes with "publish: true" are added or updated, notes with "publish: false" are removed.
+	 * Notes without a publish key are left as they are.
+	 */
+	async reconcilePublishedPagesWithFrontmatter(): Promise<{ added: number; updated: number; removed: number }> {
+		const result = { added: 0, updated: 0, removed: 0 };
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter = getPublishFrontmatter(this.app, file);
+			if (frontmatter.publish === undefined) continue;
+
+			const existingPage = this.settings.publishedPages.find(p => p.filePath === file.path);
+
+			if (!frontmatter.publish) {
+				if (existingPage) {
+					this.settings.publishedPages = this.settings.publishedPages.filter(p => p !== existingPage);
+					result.removed++;
+				}
+				continue;
+			}
+
+			const slug = frontmatter.slug
+				? this.generateSlug(frontmatter.slug)
+				: existingPage?.slug ?? await this.generateHashSlug(file.path);
+
+			if (existingPage) {
+				// A page that was only previewed goes to production with the marked notes
+				if (existingPage.slug !== slug || existingPage.previewOnly) {
+					existingPage.slug = slug;
+					existingPage.publishedAt = Date.now();
+					delete existingPage.previewOnly;
+					result.updated++;
+				}
+			} else {
+				this.settings.publishedPages.push({
+					filePath: file.path,
+					slug,
+					publishedAt: Date.now()
+				});
+				result.added++;
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Publish all notes marked in frontmatter - creates ONE deployment containing ALL published pages
+	 */
+	async publishMarkedNotesToVercel() {
+		// Validate settings
+		if (!this.settings.vercelApiToken || !this.settings.vercelProjectName) {
+			new Notice("Please set your API token and project name in plugin settings");
+			return;
+		}
+
+		try {
+			const loadingNotice = new Notice("Reading frontmatter...", 0);
+
+			const changes = await this.reconcilePublishedPagesWithFrontmatter();
+
+			if (this.getProductionPages().length === 0) {
+				await this.saveSettings();
+				loadingNotice.hide();
+				new Notice("No notes are marked with \"publish: true\"", 5000);
+				return;
+			}
+
+			loadingNotice.setMessage("Generating HTML for all published pages...");
+
+			await this.deployPublishedPages(loadingNotice);
+
+			loadingNotice.hide();
+			new Notice(
+				`Successfully published ${this.getProductionPages().length} page(s)!\n` +
+				`${changes.added} added, ${changes.updated} updated, ${changes.removed} removed.`,
+				10000
+			);
+
+		} catch (error) {
+			console.error("Vercel publish error:", error);
+			const errorMessage = error instanceof Error ? error.message : "Unknown error";
+			new Notice(`Failed to publish to Vercel: ${errorMessage}`, 10000);
+		}
+	}
+
 	/**
 	 * Publish all notes to Vercel (legacy method)
 	 */
@@ -711,10 +2022,12 @@ export default class VercelPublisherPlugin extends Plugin {
 			for (const file of files) {
 				const content = await this.app.vault.read(file);
 				const htmlContent = await this.markdownToHtml(content);
+				const frontmatter = getPublishFrontmatter(this.app, file);
 				allPages.push({
-					title: file.basename,
+					title: frontmatter.title ?? file.basename,
 					content: htmlContent,
-					slug: this.generateSlug(file.basename)
+					slug: this.generateSlug(frontmatter.slug ?? file.basename),
+					description: frontmatter.description
 				});
 			}
 
@@ -727,8 +2040,7 @@ export default class VercelPublisherPlugin extends Plugin {
 				const html = templateGen.generateHTML(page);
 				vercelFiles.push({
 					file: `${page.slug}/index.html`,
-					data: html,
-					encoding: "utf-8"
+					data: html
 				});
 			}
 
@@ -738,7 +2050,8 @@ export default class VercelPublisherPlugin extends Plugin {
 				this.settings.vercelProjectName
 			);
 
-			await vercelApi.deploy(vercelFiles);
+			const deployment = await vercelApi.deploy(vercelFiles);
+			await this.trackDeployment(vercelApi, deployment, loadingNotice);
 
 			loadingNotice.hide();
 
@@ -785,8 +2098,16 @@ export default class VercelPublisherPlugin extends Plugin {
 				p => p.filePath !== file.path
 			);
 
+			// A page that was only previewed is not in production, so there is nothing to redeploy
+			if (publishedPage.previewOnly) {
+				await this.saveSettings();
+				loadingNotice.hide();
+				new Notice("Preview discarded", 3000);
+				return;
+			}
+
 			// If no more pages published, just delete everything
-			if (this.settings.publishedPages.length === 0) {
+			if (this.getProductionPages().length === 0) {
 				await this.saveSettings();
 				loadingNotice.hide();
 				new Notice("Successfully unpublished! No pages remaining.", 3000);
@@ -795,113 +2116,10 @@ export default class VercelPublisherPlugin extends Plugin {
 
 			loadingNotice.setMessage("Regenerating remaining pages...");
 
-			// Generate HTML files for ALL remaining published pages and their linked pages
-			const templateGen = new TemplateGenerator(this.app);
-			const vercelFiles: VercelFile[] = [];
-
-			// Add Vercel configuration for clean URLs
-			const vercelConfig = {
-				cleanUrls: true,
-				trailingSlash: false
-			};
-			vercelFiles.push({
-				file: "vercel.json",
-				data: JSON.stringify(vercelConfig, null, 2),
-				encoding: "utf-8"
-			});
-
-			// Process each remaining published page
-			for (const publishedPage of this.settings.publishedPages) {
-				const pageFile = this.app.vault.getAbstractFileByPath(publishedPage.filePath);
-
-				if (!(pageFile instanceof TFile)) {
-					// File was deleted from vault but still in publishedPages
-					continue;
-				}
-
-				const pageSlug = publishedPage.slug;
-
-				// Find linked pages from this published page
-				loadingNotice.setMessage(`Processing ${pageFile.basename} and its linked pages...`);
-				const linkedFiles = await this.findLinkedPages(pageFile);
-				const allFilesForThisPage = [pageFile, ...linkedFiles];
-
-				// Collect pages and assets for this published page
-				const pagesForThisSlug: PageData[] = [];
-				const assetsForThisSlug: TFile[] = [];
-
-				for (const file of allFilesForThisPage) {
-					// Generate HTML for this page
-					const content = await this.app.vault.read(file);
-					const htmlContent = await this.markdownToHtml(content, file.path, pageSlug);
-					pagesForThisSlug.push({
-						title: file.basename,
-						content: htmlContent,
-						slug: file === pageFile ? pageSlug : this.generateSlug(file.basename)
-					});
-
-					// Collect assets for this page
-					const assets = await this.findAssets(file);
-					for (const asset of assets) {
-						if (!assetsForThisSlug.includes(asset)) {
-							assetsForThisSlug.push(asset);
-						}
-					}
-				}
-
-				// Add main page: /slug/index.html
-				const mainPageData = pagesForThisSlug.find(p => p.slug === pageSlug);
-				if (mainPageData) {
-					const html = templateGen.generateHTML(mainPageData);
-					vercelFiles.push({
-						file: `${pageSlug}/index.html`,
-						data: html,
-						encoding: "utf-8"
-					});
-				}
-
-				// Add linked pages: /slug/page-name.html
-				for (const linkedPage of pagesForThisSlug) {
-					if (linkedPage.slug !== pageSlug) {
-						const html = templateGen.generateHTML(linkedPage);
-						vercelFiles.push({
-							file: `${pageSlug}/${linkedPage.slug}.html`,
-							data: html,
-							encoding: "utf-8"
-						});
-					}
-				}
-
-				// Add assets under this slug folder: /slug/asset.png
-				for (const asset of assetsForThisSlug) {
-					const arrayBuffer = await this.app.vault.readBinary(asset);
-					const base64 = arrayBufferToBase64(arrayBuffer);
-					vercelFiles.push({
-						file: `${pageSlug}/${asset.name}`,
-						data: base64,
-						encoding: "base64"
-					});
-				}
-			}
-
-			loadingNotice.setMessage("Deploying to Vercel...");
-
-			// Deploy to Vercel
-			const vercelApi = new VercelApi(
-				this.settings.vercelApiToken,
-				this.settings.vercelProjectName
-			);
-
-			const deployment = await vercelApi.deploy(vercelFiles);
-
-			// Update ALL remaining published pages to reference the new deployment
-			for (const publishedPage of this.settings.publishedPages) {
-				publishedPage.deploymentId = deployment.id;
-			}
-			await this.saveSettings();
+			await this.deployPublishedPages(loadingNotice);
 
 			loadingNotice.hide();
-			new Notice(`Successfully unpublished! ${this.settings.publishedPages.length} page(s) remaining.`, 3000);
+			new Notice(`Successfully unpublished! ${this.getProductionPages().length} page(s) remaining.`, 3000);
 
 		} catch (error) {
 			console.error("Vercel unpublish error:", error);
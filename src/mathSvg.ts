@@ -0,0 +1,160 @@
+import type { MathDocument } from "mathjax-full/js/core/MathDocument.js";
+
+/**
+ * A formula taken out of a note before rendering
+ */
+export interface MathSource {
+	tex: string;
+	display: boolean;  // $$...$$ block, or $...$ inline
+}
+
+// Invisible placeholder for a formula, replaced by its SVG after rendering
+const MATH_MARKER = "\u2063";
+const MATH_MARKER_REGEX = /\u2063math:(\d+)\u2063/g;
+
+// Code spans and escaped dollars are kept as they are. Inline math follows Pandoc's rules:
+// no space after the opening or before the closing dollar, and no digit after the closing one.
+const MATH_REGEX = /(`+)[\s\S]*?\1|\\\$|\$\$([\s\S]+?)\$\$|\$(?!\s)((?:\\\$|[^$\n])+?)(?<!\s)\$(?!\d)/g;
+
+// The TeX extensions Obsidian's own MathJax setup supports
+const TEX_PACKAGES = ["base", "ams", "boldsymbol", "cancel", "color", "newcommand", "noundefined"];
+
+let mathDocument: Promise<MathDocument<HTMLElement, Text, Document>> | null = null;
+
+/**
+ * MathJax document typesetting TeX into self-contained SVG, with every glyph drawn as a path.
+ * MathJax is only loaded the first time a page has math.
+ */
+function getMathDocument(): Promise<MathDocument<HTMLElement, Text, Document>> {
+	mathDocument ??= (async () => {
+		const [{ mathjax }, { TeX }, { SVG }, { browserAdaptor }, { RegisterHTMLHandler }] = await Promise.all([
+			import("mathjax-full/js/mathjax.js"),
+			import("mathjax-full/js/input/tex.js"),
+			import("mathjax-full/js/output/svg.js"),
+			import("mathjax-full/js/adaptors/browserAdaptor.js"),
+			import("mathjax-full/js/handlers/html.js"),
+			// Importing a package's configuration registers it with the TeX input
+			import("mathjax-full/js/input/tex/base/BaseConfiguration.js"),
+			import("mathjax-full/js/input/tex/ams/AmsConfiguration.js"),
+			import("mathjax-full/js/input/tex/boldsymbol/BoldsymbolConfiguration.js"),
+			import("mathjax-full/js/input/tex/cancel/CancelConfiguration.js"),
+			import("mathjax-full/js/input/tex/color/ColorConfiguration.js"),
+			import("mathjax-full/js/input/tex/newcommand/NewcommandConfiguration.js"),
+			import("mathjax-full/js/input/tex/noundefined/NoUndefinedConfiguration.js")
+		]);
+
+		RegisterHTMLHandler(browserAdaptor());
+		return mathjax.document(document, {
+			InputJax: new TeX({ packages: TEX_PACKAGES }),
+			OutputJax: new SVG({ fontCache: "none" })
+		}) as MathDocument<HTMLElement, Text, Document>;
+	})();
+	return mathDocument;
+}
+
+/**
+ * Replace the formulas of a note with invisible placeholders, outside code blocks,
+ * so they can be typeset as SVG instead of by Obsidian's renderer
+ */
+export function markMath(markdown: string): { markdown: string; math: MathSource[] } {
+	const math: MathSource[] = [];
+	const markChunk = (chunk: string) => chunk.replace(MATH_REGEX, (match, _ticks, block?: string, inline?: string) => {
+		const tex = block ?? inline;
+		if (tex === undefined) {
+			return match;
+		}
+
+		// Display math inside a quote or callout carries the quote markers on every line
+		math.push({ tex: tex.replace(/\n[ \t]*(?:>[ \t]?)+/g, "\n").trim(), display: block !== undefined });
+		return `${MATH_MARKER}math:${math.length - 1}${MATH_MARKER}`;
+	});
+
+	const output: string[] = [];
+	let chunk: string[] = [];
+	let fence: string | null = null;
+	for (const line of markdown.split("\n")) {
+		const fenceMatch = line.match(/^\s*(```|~~~)/);
+		if (fenceMatch?.[1] && (fence === null || fence === fenceMatch[1])) {
+			if (fence === null && chunk.length > 0) {
+				output.push(markChunk(chunk.join("\n")));
+				chunk = [];
+			}
+			fence = fence === null ? fenceMatch[1] : null;
+			output.push(line);
+		} else if (fence !== null) {
+			output.push(line);
+		} else {
+			chunk.push(line);
+		}
+	}
+	if (chunk.length > 0) {
+		output.push(markChunk(chunk.join("\n")));
+	}
+
+	return { markdown: output.join("\n"), math };
+}
+
+/**
+ * Typeset the formula placeholders left in rendered HTML as SVG
+ */
+export async function replaceMath(container: HTMLElement, math: MathSource[]) {
+	if (math.length === 0) {
+		return;
+	}
+
+	// Headings keep their source text for ids and the table of contents
+	container.querySelectorAll("[data-heading]").forEach((heading) => {
+		const text = heading.getAttribute("data-heading") ?? "";
+		heading.setAttribute("data-heading", text.replace(MATH_MARKER_REGEX, (_match, index: string) => math[Number(index)]?.tex ?? ""));
+	});
+
+	const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+	const textNodes: Text[] = [];
+	while (walker.nextNode()) {
+		const node = walker.currentNode as Text;
+		if (node.data.includes(MATH_MARKER)) {
+			textNodes.push(node);
+		}
+	}
+
+	for (const node of textNodes) {
+		const fragment = document.createDocumentFragment();
+		let lastIndex = 0;
+		for (const match of node.data.matchAll(MATH_MARKER_REGEX)) {
+			fragment.append(node.data.substring(lastIndex, match.index));
+			lastIndex = match.index + match[0].length;
+
+			const source = math[Number(match[1])];
+			if (source) {
+				fragment.append(await typeset(source));
+			}
+		}
+		fragment.append(node.data.substring(lastIndex));
+
+		// A formula block on its own takes the place of the paragraph around it
+		const parent = node.parentElement;
+		if (parent?.tagName === "P" && parent.childNodes.length === 1 && fragment.children.length === 1 &&
+			fragment.firstElementChild?.classList.contains("math-block") && fragment.textContent?.trim() === "") {
+			parent.replaceWith(fragment);
+		} else {
+			node.replaceWith(fragment);
+		}
+	}
+}
+
+/**
+ * Typeset one formula, falling back to its source if MathJax fails
+ */
+async function typeset(source: MathSource): Promise<HTMLElement> {
+	const element = document.createElement(source.display ? "div" : "span");
+	element.className = `math ${source.display ? "math-block" : "math-inline"}`;
+
+	try {
+		element.appendChild((await getMathDocument()).convert(source.tex, { display: source.display }) as HTMLElement);
+	} catch (error) {
+		console.warn(`Could not typeset math "${source.tex}":`, error);
+		element.createEl("code", { text: source.tex });
+	}
+
+	return element;
+}
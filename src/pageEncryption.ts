@@ -0,0 +1,63 @@
+/**
+ * AES-GCM key derived from a page password with PBKDF2. Only the derived key is kept in
+ * the plugin settings, never the password, and readers derive the same key in the browser.
+ */
+export interface PageKey {
+	salt: string;  // base64
+	iterations: number;
+	key: string;  // base64 raw AES-256 key
+}
+
+/**
+ * Encrypted page body, embedded as JSON in the deployed page
+ */
+export interface EncryptedPayload {
+	salt: string;
+	iterations: number;
+	iv: string;
+	data: string;
+}
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+
+export async function derivePageKey(password: string): Promise<PageKey> {
+	const salt = window.crypto.getRandomValues(new Uint8Array(16));
+	const material = await window.crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+	const bits = await window.crypto.subtle.deriveBits(
+		{ name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+		material,
+		256
+	);
+
+	return {
+		salt: toBase64(salt),
+		iterations: PBKDF2_ITERATIONS,
+		key: toBase64(new Uint8Array(bits))
+	};
+}
+
+export async function encryptHtml(html: string, pageKey: PageKey): Promise<EncryptedPayload> {
+	const key = await window.crypto.subtle.importKey("raw", fromBase64(pageKey.key), "AES-GCM", false, ["encrypt"]);
+	const iv = window.crypto.getRandomValues(new Uint8Array(12));
+	const data = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(html));
+
+	return {
+		salt: pageKey.salt,
+		iterations: pageKey.iterations,
+		iv: toBase64(iv),
+		data: toBase64(new Uint8Array(data))
+	};
+}
+
+function toBase64(bytes: Uint8Array): string {
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return window.btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+	return Uint8Array.from(window.atob(text), c => c.charCodeAt(0));
+}
@@ -0,0 +1,176 @@
+import { App, TFile, normalizePath } from "obsidian";
+import { sha1Hex } from "./vercelApi";
+import { TocEntry } from "./templateGenerator";
+
+// Bump when the shape of the cache file or the rendered HTML changes
+const CACHE_FORMAT = 11;
+
+export interface CachedPage {
+	mtime: number;
+	size: number;
+	context: string;  // everything else the rendered HTML depends on (e.g. parent slug)
+	html: string;
+	assets: string[];  // vault paths of the assets referenced by the page
+	unpublishedLinks: string[];  // link targets that were not part of the deployment
+	dependencies: Record<string, number>;  // vault path -> mtime of notes transcluded into the page
+	headings: TocEntry[];  // the page's own headings, for the table of contents
+}
+
+// What a fresh rendering of a page contributes to the cache
+export type RenderedPage = Omit<CachedPage, "mtime" | "size" | "context">;
+
+export interface CachedAsset {
+	mtime: number;
+	size: number;
+	sha: string;
+}
+
+interface CacheData {
+	version: string;
+	pages: Record<string, CachedPage>;
+	assets: Record<string, CachedAsset>;
+}
+
+/**
+ * Persistent build cache for publishing.
+ *
+ * Stores the rendered HTML of each note and the SHA-1 digest of each asset,
+ * keyed by vault path and invalidated by mtime/size and plugin version, so
+ * only notes and assets that changed since the last publish are rebuilt.
+ * Lives next to data.json rather than inside it to keep settings small.
+ */
+export class PublishCache {
+	private app: App;
+	private path: string;
+	private version: string;
+	private data: CacheData;
+	private loaded = false;
+	private usedPages = new Set<string>();
+	private usedAssets = new Set<string>();
+
+	constructor(app: App, path: string, pluginVersion: string) {
+		this.app = app;
+		this.path = normalizePath(path);
+		this.version = `${CACHE_FORMAT}-${pluginVersion}`;
+		this.data = this.emptyData();
+	}
+
+	/**
+	 * Load the cache from disk, discarding it if it was written by another plugin version
+	 */
+	async load(): Promise<void> {
+		if (this.loaded) {
+			return;
+		}
+
+		try {
+			if (await this.app.vault.adapter.exists(this.path)) {
+				const stored = JSON.parse(await this.app.vault.adapter.read(this.path)) as CacheData;
+				if (stored.version === this.version) {
+					this.data = stored;
+				}
+			}
+		} catch (error) {
+			// A corrupt cache only costs a full rebuild
+			console.warn("Discarding unreadable publish cache:", error);
+		}
+
+		this.loaded = true;
+	}
+
+	/**
+	 * Write the cache to disk, dropping entries that were not used since the last save
+	 */
+	async save(): Promise<void> {
+		for (const key of Object.keys(this.data.pages)) {
+			if (!this.usedPages.has(key)) {
+				delete this.data.pages[key];
+			}
+		}
+		for (const key of Object.keys(this.data.assets)) {
+			if (!this.usedAssets.has(key)) {
+				delete this.data.assets[key];
+			}
+		}
+		this.usedPages.clear();
+		this.usedAssets.clear();
+
+		await this.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+	}
+
+	async clear(): Promise<void> {
+		this.data = this.emptyData();
+		this.usedPages.clear();
+		this.usedAssets.clear();
+		if (await this.app.vault.adapter.exists(this.path)) {
+			await this.app.vault.adapter.remove(this.path);
+		}
+	}
+
+	/**
+	 * Get the cached rendering of a note, or null if it changed since it was cached
+	 */
+	getPage(file: TFile, context: string): CachedPage | null {
+		const key = this.pageKey(file, context);
+		const entry = this.data.pages[key];
+		if (!entry || entry.mtime !== file.stat.mtime || entry.size !== file.stat.size || entry.context !== context) {
+			return null;
+		}
+
+		// Transcluded notes changing also invalidates the page
+		for (const [path, mtime] of Object.entries(entry.dependencies)) {
+			const dependency = this.app.vault.getAbstractFileByPath(path);
+			if (!(dependency instanceof TFile) || dependency.stat.mtime !== mtime) {
+				return null;
+			}
+		}
+
+		this.usedPages.add(key);
+		return entry;
+	}
+
+	setPage(file: TFile, context: string, rendered: RenderedPage): CachedPage {
+		const key = this.pageKey(file, context);
+		const entry: CachedPage = {
+			mtime: file.stat.mtime,
+			size: file.stat.size,
+			context,
+			...rendered
+		};
+		this.data.pages[key] = entry;
+		this.usedPages.add(key);
+		return entry;
+	}
+
+	/**
+	 * Get the SHA-1 digest and size of an asset, reading it only when it changed
+	 */
+	async getAssetDigest(file: TFile): Promise<{ sha: string; size: number }> {
+		const entry = this.data.assets[file.path];
+		this.usedAssets.add(file.path);
+		if (entry && entry.mtime === file.stat.mtime && entry.size === file.stat.size) {
+			return { sha: entry.sha, size: entry.size };
+		}
+
+		const bytes = await this.app.vault.readBinary(file);
+		const sha = await sha1Hex(bytes);
+		this.data.assets[file.path] = {
+			mtime: file.stat.mtime,
+			size: bytes.byteLength,
+			sha
+		};
+		return { sha, size: bytes.byteLength };
+	}
+
+	private pageKey(file: TFile, context: string): string {
+		return `${context}|${file.path}`;
+	}
+
+	private emptyData(): CacheData {
+		return {
+			version: this.version,
+			pages: {},
+			assets: {}
+		};
+	}
+}
@@ -1,6 +1,7 @@
 import { App, Modal, Notice, TFile } from "obsidian";
 import type VercelPublisherPlugin from "./main";
 import { VercelApi } from "./vercelApi";
+import { getPublishFrontmatter } from "./frontmatter";
 
 // Helper function to set CSS properties
 function setCssProps(element: HTMLElement, props: Record<string, string | number>) {
@@ -12,27 +13,40 @@ function setCssProps(element: HTMLElement, props: Record<string, string | number
 	}
 }
 
+/**
+ * What the modal's buttons do. Passwords are a new password, null to remove it, or undefined to keep it.
+ */
+export interface PublishModalActions {
+	onPublish: (slug: string, password?: string | null) => void;
+	onPreview: (slug: string, password?: string | null) => void;
+	onPromote: () => void;
+	onUnpublish: () => void;
+}
+
 export class PublishModal extends Modal {
 	plugin: VercelPublisherPlugin;
 	file: TFile;
 	slug: string;
-	onSubmit: (slug: string) => void;
-	onUnpublish: () => void;
+	password = "";
+	removePassword = false;
+	actions: PublishModalActions;
 	domains: string[] = [];
 	selectedDomain: string;
 	domainSelectEl: HTMLSelectElement;
 	urlDisplayEl: HTMLDivElement;
 
-	constructor(app: App, plugin: VercelPublisherPlugin, file: TFile, onSubmit: (slug: string) => void, onUnpublish: () => void) {
+	constructor(app: App, plugin: VercelPublisherPlugin, file: TFile, actions: PublishModalActions) {
 		super(app);
 		this.plugin = plugin;
 		this.file = file;
-		this.onSubmit = onSubmit;
-		this.onUnpublish = onUnpublish;
+		this.actions = actions;
 
-		// Check if file is already published and use existing slug
+		// Prefer the slug from frontmatter, then the existing slug if the file is already published
+		const frontmatterSlug = getPublishFrontmatter(app, file).slug;
 		const existingPublish = plugin.settings.publishedPages.find(p => p.filePath === file.path);
-		if (existingPublish) {
+		if (frontmatterSlug) {
+			this.slug = plugin.generateSlug(frontmatterSlug);
+		} else if (existingPublish) {
 			this.slug = existingPublish.slug;
 		} else {
 			// Will be generated asynchronously in onOpen
@@ -43,15 +57,6 @@ export class PublishModal extends Modal {
 		this.selectedDomain = `${this.plugin.settings.vercelProjectName}.vercel.app`;
 	}
 
-	async generateHashSlug(text: string): Promise<string> {
-		const encoder = new TextEncoder();
-		const data = encoder.encode(text);
-		const hashBuffer = await window.crypto.subtle.digest("SHA-256", data);
-		const hashArray = Array.from(new Uint8Array(hashBuffer));
-		const hashHex = hashArray.map(b => b.toString(16).padStart(2, "0")).join("");
-		return hashHex.substring(0, 8);
-	}
-
 	getFullUrl(): string {
 		return `https://${this.selectedDomain}/${this.slug}/`;
 	}
@@ -78,7 +83,8 @@ export class PublishModal extends Modal {
 			);
 
 			this.domains = await vercelApi.getProjectDomains();
-			this.selectedDomain = this.domains[0] || defaultDomain;
+			const savedDomain = this.plugin.settings.siteDomain;
+			this.selectedDomain = this.domains.includes(savedDomain) ? savedDomain : this.domains[0] || defaultDomain;
 		} catch {
 			this.domains = [defaultDomain];
 			this.selectedDomain = defaultDomain;
@@ -106,7 +112,7 @@ export class PublishModal extends Modal {
 
 		// Generate slug if not already set
 		if (!this.slug) {
-			this.slug = await this.generateHashSlug(this.file.path);
+			this.slug = await this.plugin.generateHashSlug(this.file.path);
 		}
 
 		// Fetch domains
@@ -263,6 +269,15 @@ export class PublishModal extends Modal {
 			this.updateUrlDisplay();
 		});
 
+		// Password protection for this page and its linked pages
+		this.renderPasswordRow(contentEl);
+
+		// Linked pages that will be deployed along with this page
+		this.renderLinkedPages(contentEl);
+
+		// Preview waiting to be promoted to production
+		this.renderPreviewRow(contentEl);
+
 		// Buttons row
 		const buttonRow = contentEl.createDiv({ cls: "publish-button-row" });
 		setCssProps(buttonRow, {
@@ -279,33 +294,211 @@ export class PublishModal extends Modal {
 			padding: "8px 16px"
 		});
 		publishButton.addEventListener("click", () => {
-			if (!this.slug) {
-				new Notice("Please enter a URL slug");
-				return;
-			}
-			this.onSubmit(this.slug);
-			this.close();
+			this.submit(this.actions.onPublish);
+		});
+
+		const previewButton = buttonRow.createEl("button", {
+			text: "Publish preview"
+		});
+		setCssProps(previewButton, {
+			padding: "8px 16px"
+		});
+		previewButton.addEventListener("click", () => {
+			this.submit(this.actions.onPreview);
 		});
 
-		// Check if file is already published
-		const isPublished = this.plugin.settings.publishedPages.some(
+		// Check if file is already published, or only previewed
+		const publishedPage = this.plugin.settings.publishedPages.find(
 			p => p.filePath === this.file.path
 		);
 
-		if (isPublished) {
+		if (publishedPage) {
 			const unpublishButton = buttonRow.createEl("button", {
-				text: "Unpublish"
+				text: publishedPage.previewOnly ? "Discard preview" : "Unpublish"
 			});
 			setCssProps(unpublishButton, {
 				padding: "8px 16px"
 			});
 			unpublishButton.addEventListener("click", () => {
-				this.onUnpublish();
+				this.actions.onUnpublish();
 				this.close();
 			});
 		}
 	}
 
+	submit(action: (slug: string, password?: string | null) => void) {
+		if (!this.slug) {
+			new Notice("Please enter a URL slug");
+			return;
+		}
+		// Absolute URLs in the site (e.g. feeds) use the chosen domain
+		this.plugin.settings.siteDomain = this.selectedDomain;
+		action(this.slug, this.removePassword ? null : this.password || undefined);
+		this.close();
+	}
+
+	renderPreviewRow(containerEl: HTMLElement) {
+		const preview = this.plugin.settings.publishedPages.find(p => p.filePath === this.file.path)?.preview;
+		if (!preview) {
+			return;
+		}
+
+		const previewRow = containerEl.createDiv({ cls: "publish-preview-row" });
+		setCssProps(previewRow, {
+			marginBottom: "16px"
+		});
+
+		const previewLabel = previewRow.createEl("label", { text: `Preview from ${new Date(preview.createdAt).toLocaleString()}:` });
+		setCssProps(previewLabel, {
+			display: "block",
+			marginBottom: "4px",
+			fontSize: "13px",
+			fontWeight: "500"
+		});
+
+		const previewContainer = previewRow.createDiv();
+		setCssProps(previewContainer, {
+			display: "flex",
+			gap: "8px",
+			alignItems: "center"
+		});
+
+		// The preview's own slug for this page, which may differ from the one being edited
+		const previewSlug = preview.publishedPages.find(p => p.filePath === this.file.path)?.slug ?? this.slug;
+		const previewUrl = `https://${preview.url}/${previewSlug}/`;
+		const previewLink = previewContainer.createEl("a", { text: previewUrl, href: previewUrl });
+		setCssProps(previewLink, {
+			flex: "1",
+			fontFamily: "var(--font-monospace)",
+			fontSize: "13px",
+			overflow: "hidden",
+			textOverflow: "ellipsis",
+			whiteSpace: "nowrap"
+		});
+
+		const promoteButton = previewContainer.createEl("button", {
+			text: "Promote to production"
+		});
+		promoteButton.addEventListener("click", () => {
+			this.actions.onPromote();
+			this.close();
+		});
+	}
+
+	renderPasswordRow(containerEl: HTMLElement) {
+		const passwordRow = containerEl.createDiv({ cls: "publish-password-row" });
+		setCssProps(passwordRow, {
+			marginBottom: "16px"
+		});
+
+		const passwordLabel = passwordRow.createEl("label", { text: "Password (optional):" });
+		setCssProps(passwordLabel, {
+			display: "block",
+			marginBottom: "4px",
+			fontSize: "13px",
+			fontWeight: "500"
+		});
+
+		// A password in frontmatter always wins
+		if (getPublishFrontmatter(this.app, this.file).password) {
+			passwordRow.createDiv({ text: "Protected by the password in this note's frontmatter." });
+			return;
+		}
+
+		const isProtected = this.plugin.settings.publishedPages.some(
+			p => p.filePath === this.file.path && p.protection
+		);
+
+		const passwordInput = passwordRow.createEl("input", {
+			type: "password",
+			placeholder: isProtected ? "Leave empty to keep the current password" : "Leave empty for a public page"
+		});
+		setCssProps(passwordInput, {
+			width: "100%",
+			padding: "8px",
+			border: "1px solid var(--background-modifier-border)",
+			borderRadius: "4px",
+			fontSize: "13px"
+		});
+		passwordInput.addEventListener("input", () => {
+			this.password = passwordInput.value;
+		});
+
+		const hint = passwordRow.createDiv({
+			text: "Readers need the password to view this page and its linked pages. Only a key derived from it is stored."
+		});
+		setCssProps(hint, {
+			marginTop: "4px",
+			fontSize: "12px",
+			color: "var(--text-muted)"
+		});
+
+		if (isProtected) {
+			const removeLabel = passwordRow.createEl("label");
+			setCssProps(removeLabel, {
+				display: "flex",
+				gap: "6px",
+				alignItems: "center",
+				marginTop: "8px",
+				fontSize: "13px"
+			});
+			const removeCheckbox = removeLabel.createEl("input", { type: "checkbox" });
+			removeLabel.appendText("Remove password protection");
+			removeCheckbox.addEventListener("change", () => {
+				this.removePassword = removeCheckbox.checked;
+				passwordInput.disabled = removeCheckbox.checked;
+			});
+		}
+	}
+
+	renderLinkedPages(containerEl: HTMLElement) {
+		const result = this.plugin.findLinkedPages(this.file);
+
+		const linkedRow = containerEl.createDiv({ cls: "publish-linked-row" });
+		setCssProps(linkedRow, {
+			marginBottom: "16px",
+			fontSize: "13px"
+		});
+
+		const details = linkedRow.createEl("details");
+		details.createEl("summary", {
+			text: result.pages.length === 0
+				? "No linked pages will be published"
+				: `${result.pages.length} linked page(s) will be published with this page`
+		});
+
+		const list = details.createEl("ul");
+		setCssProps(list, {
+			maxHeight: "160px",
+			overflowY: "auto",
+			margin: "8px 0",
+			color: "var(--text-muted)"
+		});
+		for (const page of result.pages) {
+			list.createEl("li", { text: page.path });
+		}
+
+		if (result.truncated) {
+			const warning = linkedRow.createDiv({
+				text: `Stopped at the limit of ${this.plugin.settings.maxLinkedPages} linked pages - some linked pages will not be published.`
+			});
+			setCssProps(warning, {
+				marginTop: "4px",
+				color: "var(--text-warning)"
+			});
+		}
+
+		if (result.outOfScope.length > 0) {
+			const skipped = linkedRow.createDiv({
+				text: `${result.outOfScope.length} linked note(s) are outside the configured folders or tags, or marked "publish: false", and will not be published.`
+			});
+			setCssProps(skipped, {
+				marginTop: "4px",
+				color: "var(--text-muted)"
+			});
+		}
+	}
+
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
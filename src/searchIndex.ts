@@ -0,0 +1,27 @@
+import { htmlToText } from "./feeds";
+
+/**
+ * One page in the search index. Keys are kept short because the
+ * whole index is downloaded by the reader's browser on first search.
+ */
+export interface SearchDocument {
+	t: string;  // title
+	u: string;  // URL
+	h: string[];  // headings
+	x: string;  // plain text
+}
+
+export const SEARCH_INDEX_PATH = "_site/search.json";
+
+export function createSearchDocument(title: string, url: string, headings: string[], html: string): SearchDocument {
+	return {
+		t: title,
+		u: url,
+		h: headings,
+		x: htmlToText(html)
+	};
+}
+
+export function generateSearchIndex(documents: SearchDocument[]): string {
+	return JSON.stringify(documents);
+}
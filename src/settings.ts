@@ -1,25 +1,113 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import type VercelPublisherPlugin from "./main";
+import { DEFAULT_THEME, ThemeLoader } from "./themes";
+import { LayoutLoader } from "./layouts";
+import { FontChoice } from "./fonts";
+import { FeedContent, FeedFormat } from "./feeds";
+import { PageKey } from "./pageEncryption";
 
 export interface PublishedPage {
 	filePath: string;
 	slug: string;
 	publishedAt: number;
 	deploymentId?: string;  // Track deployment ID for deletion
+	protection?: PageKey;  // key derived from the page password; the password itself is never stored
+	previewOnly?: boolean;  // previewed, but not in production yet
+	preview?: PagePreview;  // latest preview of this page, until it is promoted or superseded
 }
 
+/**
+ * A preview deployment of a page, with the published pages it contains
+ */
+export interface PagePreview {
+	deploymentId: string;
+	url: string;  // unique deployment URL, without protocol
+	createdAt: number;
+	publishedPages: PublishedPage[];  // restored when the preview is promoted to production
+}
+
+/**
+ * A production deployment made by the plugin, with the published pages it contained
+ */
+export interface DeploymentRecord {
+	deploymentId: string;
+	createdAt: number;
+	trigger?: string;  // vault path of the note whose publish created the deployment
+	publishedPages: PublishedPage[];
+}
+
+// How links to notes that are not part of the deployment are rendered
+export type UnpublishedLinkStyle = "text" | "span" | "link";
+
 export interface VercelPublisherSettings {
 	exportFolder: string;
 	vercelApiToken: string;
 	vercelProjectName: string;
+	siteDomain: string;  // domain for absolute URLs; empty = the project's vercel.app domain
 	publishedPages: PublishedPage[];
+	deploymentHistory: DeploymentRecord[];  // latest first
+	rolledBack: boolean;  // production was rolled back, so Vercel no longer assigns new deployments to it
+	linkDepth: number;
+	maxLinkedPages: number;
+	linkScopeFolders: string[];
+	linkScopeTags: string[];
+	unpublishedLinkStyle: UnpublishedLinkStyle;
+	backlinks: boolean;
+	siteTitle: string;
+	author: string;  // default author for notes without an "author" frontmatter key
+	homePage: string;  // vault path of the published note shown at "/"; empty = list of published pages
+	feeds: boolean;
+	feedFormat: FeedFormat;
+	feedContent: FeedContent;
+	noindex: boolean;  // default for notes without a "noindex" frontmatter key
+	robotsTxt: string;  // custom robots.txt rules; empty = allow all
+	theme: string;
+	themesFolder: string;
+	layoutsFolder: string;
+	layout: string;  // empty = built-in layout
+	colorSchemeToggle: boolean;
+	fonts: FontChoice;
+	search: boolean;
+	tableOfContents: boolean;
+	tocDepth: number;  // deepest heading level listed, 1-6
 }
 
 export const DEFAULT_SETTINGS: VercelPublisherSettings = {
 	exportFolder: "_exported",
 	vercelApiToken: "",
 	vercelProjectName: "",
-	publishedPages: []
+	siteDomain: "",
+	publishedPages: [],
+	deploymentHistory: [],
+	rolledBack: false,
+	linkDepth: 1,
+	maxLinkedPages: 100,
+	linkScopeFolders: [],
+	linkScopeTags: [],
+	unpublishedLinkStyle: "span",
+	backlinks: true,
+	siteTitle: "",
+	author: "",
+	homePage: "",
+	feeds: true,
+	feedFormat: "atom",
+	feedContent: "full",
+	noindex: false,
+	robotsTxt: "",
+	theme: DEFAULT_THEME,
+	themesFolder: "",
+	layoutsFolder: "",
+	layout: "",
+	colorSchemeToggle: true,
+	fonts: "bundled",
+	search: true,
+	tableOfContents: true,
+	tocDepth: 3
+}
+
+// Split a comma-separated setting into trimmed, non-empty entries
+function parseList(value: string): string[] {
+	return value.split(",").map(v => v.trim()).filter(v => v.length > 0);
 }
 
 export class VercelPublisherSettingTab extends PluginSettingTab {
@@ -51,6 +139,157 @@ export class VercelPublisherSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Appearance section
+		new Setting(containerEl).setName("Appearance").setHeading();
+
+		new Setting(containerEl)
+			.setName("Site title")
+			.setDesc("Shown at the top of every published page, linking to the home page")
+			.addText(text => text
+				.setPlaceholder("My notes")
+				.setValue(this.plugin.settings.siteTitle)
+				.onChange(async (value) => {
+					this.plugin.settings.siteTitle = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Author")
+			.setDesc("Author shown in link previews. Notes can set their own with an \"author\" frontmatter key.")
+			.addText(text => text
+				.setValue(this.plugin.settings.author)
+				.onChange(async (value) => {
+					this.plugin.settings.author = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Home page")
+			.setDesc("What readers see at the root of your site")
+			.addDropdown(dropdown => {
+				dropdown.addOption("", "List of published pages");
+				const productionPages = this.plugin.getProductionPages();
+				for (const page of productionPages) {
+					dropdown.addOption(page.filePath, page.filePath);
+				}
+				const isPublished = productionPages.some(p => p.filePath === this.plugin.settings.homePage);
+				dropdown
+					.setValue(isPublished ? this.plugin.settings.homePage : "")
+					.onChange(async (value) => {
+						this.plugin.settings.homePage = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Themes folder")
+			.setDesc("Vault folder with custom themes. Add a stylesheet per theme, optionally with a JSON file of variable overrides.")
+			.addText(text => text
+				.setPlaceholder("_themes")
+				.setValue(this.plugin.settings.themesFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.themesFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Theme")
+			.setDesc("Theme for published pages. Notes can pick their own with a \"theme\" frontmatter key.")
+			.addDropdown(dropdown => {
+				const themes = new ThemeLoader(this.app, this.plugin.settings.themesFolder).listThemes();
+				for (const theme of themes) {
+					dropdown.addOption(theme, theme);
+				}
+				dropdown
+					.setValue(themes.includes(this.plugin.settings.theme) ? this.plugin.settings.theme : DEFAULT_THEME)
+					.onChange(async (value) => {
+						this.plugin.settings.theme = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Fonts")
+			.setDesc("The bundled serif font is deployed with your site, so readers never load it from a third party. It ships with the plugin.")
+			.addDropdown(dropdown => dropdown
+				.addOption("bundled", "Bundled serif font")
+				.addOption("system", "System fonts")
+				.setValue(this.plugin.settings.fonts)
+				.onChange(async (value) => {
+					this.plugin.settings.fonts = value as FontChoice;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Site search")
+			.setDesc("Add a search box to published pages. It runs in the reader's browser, without any external service. Leave a note out of the results with \"search: false\" in its frontmatter.")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.search)
+				.onChange(async (value) => {
+					this.plugin.settings.search = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Table of contents")
+			.setDesc("Show a table of contents built from the headings of each page. Notes can override this with a \"toc\" frontmatter key.")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.tableOfContents)
+				.onChange(async (value) => {
+					this.plugin.settings.tableOfContents = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Table of contents depth")
+			.setDesc("Deepest heading level to list, e.g. 3 lists headings down to ###.")
+			.addSlider(slider => slider
+				.setLimits(1, 6, 1)
+				.setValue(this.plugin.settings.tocDepth)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.tocDepth = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Dark mode toggle")
+			.setDesc("Pages follow the reader's system light or dark mode. This adds a button that lets readers switch and remembers their choice, on pages whose theme has a dark palette.")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.colorSchemeToggle)
+				.onChange(async (value) => {
+					this.plugin.settings.colorSchemeToggle = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Layouts folder")
+			.setDesc("Vault folder with HTML layouts, and partials in a \"partials\" subfolder.")
+			.addText(text => text
+				.setPlaceholder("_layouts")
+				.setValue(this.plugin.settings.layoutsFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.layoutsFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Layout")
+			.setDesc("Layout for published pages. Notes can pick their own with a \"template\" frontmatter key.")
+			.addDropdown(dropdown => {
+				const layouts = new LayoutLoader(this.app, this.plugin.settings.layoutsFolder).listLayouts();
+				dropdown.addOption("", "Built-in");
+				for (const layout of layouts) {
+					dropdown.addOption(layout, layout);
+				}
+				dropdown
+					.setValue(layouts.includes(this.plugin.settings.layout) ? this.plugin.settings.layout : "")
+					.onChange(async (value) => {
+						this.plugin.settings.layout = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		// Vercel section
 		new Setting(containerEl).setName("Vercel").setHeading();
 
@@ -86,5 +325,149 @@ export class VercelPublisherSettingTab extends PluginSettingTab {
 					this.plugin.settings.vercelProjectName = value;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName("Site domain")
+			.setDesc("Domain used for absolute links, such as those in feeds. Updated to the domain you pick when publishing. Leave empty to use the project's default domain.")
+			.addText(text => text
+				.setValue(this.plugin.settings.siteDomain)
+				.onChange(async (value) => {
+					this.plugin.settings.siteDomain = value.trim().replace(/^https?:\/\//, "").replace(/\/+$/, "");
+					await this.plugin.saveSettings();
+				}));
+
+		// Feeds section
+		new Setting(containerEl).setName("Feeds").setHeading();
+
+		new Setting(containerEl)
+			.setName("Publish feeds")
+			.setDesc("Add feed.xml and feed.json to the site so readers can subscribe to your published pages")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.feeds)
+				.onChange(async (value) => {
+					this.plugin.settings.feeds = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Feed format")
+			.setDesc("Format of feed.xml. A JSON feed is always included.")
+			.addDropdown(dropdown => dropdown
+				.addOption("atom", "Atom")
+				.addOption("rss", "RSS 2.0")
+				.setValue(this.plugin.settings.feedFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.feedFormat = value as FeedFormat;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Feed content")
+			.setDesc("Include the full page in feeds, or only a summary (the description, or the start of the page)")
+			.addDropdown(dropdown => dropdown
+				.addOption("full", "Full content")
+				.addOption("summary", "Summary")
+				.setValue(this.plugin.settings.feedContent)
+				.onChange(async (value) => {
+					this.plugin.settings.feedContent = value as FeedContent;
+					await this.plugin.saveSettings();
+				}));
+
+		// Search engines section
+		new Setting(containerEl).setName("Search engines").setHeading();
+
+		new Setting(containerEl)
+			.setName("Hide pages from search engines")
+			.setDesc("Ask search engines not to index published pages. Notes can override this with a \"noindex\" frontmatter key.")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.noindex)
+				.onChange(async (value) => {
+					this.plugin.settings.noindex = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Crawler rules")
+			.setDesc("Contents of robots.txt. Leave empty to allow all crawlers. A link to the sitemap is added automatically.")
+			.addTextArea(text => text
+				.setValue(this.plugin.settings.robotsTxt)
+				.onChange(async (value) => {
+					this.plugin.settings.robotsTxt = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Linked pages section
+		new Setting(containerEl).setName("Linked pages").setHeading();
+
+		new Setting(containerEl)
+			.setName("Link depth")
+			.setDesc("How many links away from a published page to follow. 0 publishes only the page itself.")
+			.addSlider(slider => slider
+				.setLimits(0, 10, 1)
+				.setValue(this.plugin.settings.linkDepth)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.linkDepth = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Maximum linked pages")
+			.setDesc("Stop following links once this many linked pages have been collected for a published page")
+			.addText(text => text
+				.setPlaceholder("100")
+				.setValue(String(this.plugin.settings.maxLinkedPages))
+				.onChange(async (value) => {
+					const parsed = parseInt(value, 10);
+					if (!isNaN(parsed) && parsed >= 0) {
+						this.plugin.settings.maxLinkedPages = parsed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName("Limit to folders")
+			.setDesc("Only follow links into these folders (comma-separated). Leave empty to follow links anywhere.")
+			.addText(text => text
+				.setPlaceholder("Notes, public/docs")
+				.setValue(this.plugin.settings.linkScopeFolders.join(", "))
+				.onChange(async (value) => {
+					this.plugin.settings.linkScopeFolders = parseList(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Limit to tags")
+			.setDesc("Only follow links to notes with one of these tags (comma-separated). Leave empty to allow any note.")
+			.addText(text => text
+				.setPlaceholder("#public, #docs")
+				.setValue(this.plugin.settings.linkScopeTags.join(", "))
+				.onChange(async (value) => {
+					this.plugin.settings.linkScopeTags = parseList(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Links to unpublished notes")
+			.setDesc("How to render links to notes that are not part of the deployment or don't exist")
+			.addDropdown(dropdown => dropdown
+				.addOption("span", "Mark as unpublished")
+				.addOption("text", "Plain text")
+				.addOption("link", "Keep as link")
+				.setValue(this.plugin.settings.unpublishedLinkStyle)
+				.onChange(async (value) => {
+					this.plugin.settings.unpublishedLinkStyle = value as UnpublishedLinkStyle;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Backlinks")
+			.setDesc("List the pages linking to each page at the bottom of it, with the text around each link. Links from every published page are listed.")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.backlinks)
+				.onChange(async (value) => {
+					this.plugin.settings.backlinks = value;
+					await this.plugin.saveSettings();
+				}));
 	}
 }
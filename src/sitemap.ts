@@ -0,0 +1,37 @@
+import { escapeXml } from "./feeds";
+
+export interface SitemapEntry {
+	url: string;  // root-relative, e.g. "/slug/page"
+	modified: number;
+}
+
+export const SITEMAP_PATH = "sitemap.xml";
+export const ROBOTS_PATH = "robots.txt";
+
+/**
+ * sitemap.xml listing the given pages, see https://www.sitemaps.org/protocol.html
+ */
+export function generateSitemap(siteUrl: string, entries: SitemapEntry[]): string {
+	const urls = entries.map(entry => `	<url>
+		<loc>${escapeXml(`${siteUrl}${entry.url}`)}</loc>
+		<lastmod>${new Date(entry.modified).toISOString().substring(0, 10)}</lastmod>
+	</url>`).join("\n");
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls}
+</urlset>
+`;
+}
+
+/**
+ * robots.txt: the user's own rules, or a default that allows everything.
+ * The sitemap is added unless the custom rules already point to one.
+ */
+export function generateRobotsTxt(siteUrl: string, customRules: string): string {
+	const rules = customRules.trim() || "User-agent: *\nAllow: /";
+	if (/^sitemap:/im.test(rules)) {
+		return `${rules}\n`;
+	}
+	return `${rules}\n\nSitemap: ${siteUrl}/${SITEMAP_PATH}\n`;
+}
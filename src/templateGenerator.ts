@@ -1,11 +1,70 @@
 import { App } from "obsidian";
+import { BUNDLED_THEMES, DEFAULT_THEME, ThemeDefinition } from "./themes";
+import { DEFAULT_LAYOUT, Layout, LayoutData, LayoutEngine } from "./layouts";
+import { FontChoice, getFontFaceRules, getFontFamily } from "./fonts";
+import { EncryptedPayload } from "./pageEncryption";
+
+export interface NavigationItem {
+	title: string;
+	url: string;
+	active: boolean;
+}
+
+export interface FeedLink {
+	type: string;  // e.g. "application/atom+xml"
+	title: string;
+	href: string;
+}
+
+export interface SiteIndexEntry {
+	title: string;
+	url: string;
+	description?: string;
+	publishedAt: number;
+}
+
+export interface Backlink {
+	title: string;
+	url: string;
+	snippets: string[];  // plain text around each link to the page
+}
+
+export interface TocEntry {
+	level: number;  // 1-6, from <h1> to <h6>
+	id: string;
+	text: string;
+}
 
 export interface PageData {
 	title: string;
 	content: string;
 	slug: string;
+	description?: string;
+	theme?: ThemeDefinition;
+	stylesheetUrl?: string;  // shared theme stylesheet; styles are inlined when missing
+	layout?: Layout;  // vault layout; the built-in layout is used when missing
+	navigation?: NavigationItem[];  // pages deployed alongside this one
+	modified?: number;
+	tags?: string[];
+	colorSchemeToggle?: boolean;  // show a light/dark switch that is remembered in localStorage
+	toc?: TocEntry[];  // headings for the table of contents; none when it is turned off
+	backlinks?: Backlink[];  // deployed pages linking to this one
+	siteTitle?: string;  // links back to the site home page when set
+	feedLinks?: FeedLink[];  // advertised with <link rel="alternate"> so readers can subscribe
+	noindex?: boolean;  // keep the page out of search engines
+	canonicalUrl?: string;  // absolute URLs, only known for deployed pages
+	image?: string;
+	author?: string;
+	searchIndexUrl?: string;  // shows the site search box when set
+	encryptedBody?: EncryptedPayload;  // password-protected page: the body is only shown once unlocked
 }
 
+// Title of password-protected pages until they are unlocked
+export const PROTECTED_PAGE_TITLE = "Protected page";
+
+// localStorage key holding the reader's color scheme choice
+const COLOR_SCHEME_STORAGE_KEY = "color-scheme";
+
 export class TemplateGenerator {
 	private app: App;
 
@@ -14,282 +73,1079 @@ export class TemplateGenerator {
 	}
 
 	generateHTML(page: PageData): string {
+		// The toggle would do nothing on a theme without a dark palette
+		const colorSchemeToggle = page.colorSchemeToggle && this.hasDarkPalette(page.theme ?? this.getDefaultTheme());
+
 		return `<!DOCTYPE html>
 <html lang="en">
 <head>
 	<meta charset="UTF-8">
 	<meta name="viewport" content="width=device-width, initial-scale=1.0">
-	<title>${this.escapeHtml(page.title)}</title>
-	<link rel="preconnect" href="https://fonts.googleapis.com">
-	<link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
-	<link href="https://fonts.googleapis.com/css2?family=IBM+Plex+Serif:ital,wght@0,100;0,200;0,300;0,400;0,500;0,600;0,700;1,100;1,200;1,300;1,400;1,500;1,600;1,700&display=swap" rel="stylesheet">
-	<style>
-		:root {
-			--background-primary: #F2F0EF;
-			--background-secondary: #f5f5f5;
-			--text-normal: #546373;
-			--text-muted: #6c7680;
-			--text-faint: #CBCBCB;
-			--interactive-accent: #36404A;
-			--interactive-accent-hover: #6D8196;
-			--background-modifier-border: #e0e0e0;
-			--code-background: #f5f5f5;
-			--blockquote-border: #8683a0;
-		}
+	<title>${this.escapeHtml(this.getDocumentTitle(page))}</title>
+	${this.renderMetaTags(page)}
+	${page.noindex ? "<meta name=\"robots\" content=\"noindex\">" : ""}
+	${(page.feedLinks ?? []).map(feed =>
+		`<link rel="alternate" type="${this.escapeAttribute(feed.type)}" title="${this.escapeAttribute(feed.title)}" href="${this.escapeAttribute(feed.href)}">`
+	).join("\n\t")}
+	${page.stylesheetUrl
+		? `<link rel="stylesheet" href="${this.escapeAttribute(page.stylesheetUrl)}">`
+		: `<style>\n${this.generateStylesheet(page.theme ?? this.getDefaultTheme())}\n	</style>`}
+	${colorSchemeToggle ? `<script>${this.generateColorSchemeScript()}</script>` : ""}
+</head>
+<body>
+	${page.encryptedBody ? this.renderUnlockForm(page.encryptedBody) : this.renderBody(page)}
+	${colorSchemeToggle ? "<button type=\"button\" class=\"color-scheme-toggle\" aria-label=\"Toggle dark mode\" title=\"Toggle dark mode\"></button>" : ""}
+	${this.renderPageScripts(page)}
+</body>
+</html>`;
+	}
 
-		* {
-			margin: 0;
-			padding: 0;
-			box-sizing: border-box;
-		}
 
-		body {
-			font-family: "IBM Plex Serif", -apple-system, BlinkMacSystemFont, serif;
-			line-height: 1.6;
-			color: var(--text-normal);
-			background: var(--background-primary);
-			padding: 0;
-		}
+	/**
+	 * Generate the stylesheet for a theme: its variables, the base styles and any custom CSS.
+	 * Bundled fonts are only referenced when their files are deployed next to the stylesheet.
+	 */
+	generateStylesheet(theme: ThemeDefinition, fonts: FontChoice = "system"): string {
+		const fontFaces = getFontFaceRules(fonts);
+		const variables = this.formatVariables(theme.variables, "\t");
+		// The dark palette follows the system setting unless the reader picked a scheme with the toggle
+		const darkPalette = this.hasDarkPalette(theme) ? `
+@media (prefers-color-scheme: dark) {
+	:root:not([data-color-scheme="light"]) {
+		color-scheme: dark;
+		--color-scheme-icon: "☀";
+${this.formatVariables(theme.darkVariables ?? {}, "\t\t")}
+	}
+}
 
-		a.internal-link {
-			text-decoration: underline;
-			text-underline-offset: 4px;
-			text-decoration-line: underline;
-      		text-decoration-thickness: 1.6px;
-		}
+:root[data-color-scheme="dark"] {
+	color-scheme: dark;
+	--color-scheme-icon: "☀";
+${this.formatVariables(theme.darkVariables ?? {}, "\t")}
+}
+` : "";
 
-		del {
-			text-decoration-line: line-through;
-  			text-decoration-thickness: 4px;
-		}
+		return `${fontFaces ? `${fontFaces}\n\n` : ""}:root {
+	color-scheme: light;
+	--color-scheme-icon: "☾";
+${variables}
+}
+${darkPalette}
+* {
+	margin: 0;
+	padding: 0;
+	box-sizing: border-box;
+}
 
-		.container {
-			max-width: 780px;
-			margin: 0 auto;
-			background: var(--background-primary);
-			padding: 40px 30px;
-		}
+body {
+	font-family: ${getFontFamily(fonts)};
+	line-height: 1.6;
+	color: var(--text-normal);
+	background: var(--background-primary);
+	padding: 0;
+}
 
-		.header {
-			border-bottom: 1px solid var(--background-modifier-border);
-			padding-bottom: 20px;
-			margin-bottom: 30px;
-		}
+a.internal-link {
+	text-decoration: underline;
+	text-underline-offset: 4px;
+	text-decoration-line: underline;
+	text-decoration-thickness: 1.6px;
+}
 
-		.site-title {
-			font-size: 1.3rem;
-			color: var(--interactive-accent);
-			text-decoration: none;
-			font-weight: 600;
-		}
+.unpublished-link {
+	color: var(--text-muted);
+	text-decoration: underline dotted;
+	text-underline-offset: 4px;
+	cursor: help;
+}
 
-		.site-title:hover {
-			color: var(--interactive-accent-hover);
-		}
+del {
+	text-decoration-line: line-through;
+	text-decoration-thickness: 4px;
+}
 
-		.nav {
-			margin-top: 15px;
-		}
+.container {
+	max-width: 780px;
+	margin: 0 auto;
+	background: var(--background-primary);
+	padding: 40px 30px;
+}
 
-		.nav-links {
-			display: flex;
-			flex-wrap: wrap;
-			gap: 12px;
-			list-style: none;
-		}
+.header {
+	border-bottom: 1px solid var(--background-modifier-border);
+	padding-bottom: 20px;
+	margin-bottom: 30px;
+}
 
-		.nav-links a {
-			color: var(--text-muted);
-			text-decoration: none;
-			padding: 4px 8px;
-			border-radius: 4px;
-			transition: all 0.2s;
-			font-size: 0.9em;
-		}
+.site-title {
+	font-size: 1.3rem;
+	color: var(--interactive-accent);
+	text-decoration: none;
+	font-weight: 600;
+}
 
-		.nav-links a:hover {
-			color: var(--interactive-accent);
-		}
+.site-title:hover {
+	color: var(--interactive-accent-hover);
+}
 
-		.nav-links a.active {
-			color: var(--interactive-accent);
-			font-weight: 500;
-		}
+.nav {
+	margin-top: 15px;
+}
 
-		.markdown-content {
-			font-size: 16px;
-		}
+.nav-links {
+	display: flex;
+	flex-wrap: wrap;
+	gap: 12px;
+	list-style: none;
+}
 
-		h1, h2, h3, h4, h5, h6 {
-			font-weight: 600;
-			line-height: 1.3;
-			color: var(--text-normal);
-			margin-top: 1.5em;
-			margin-bottom: 0.5em;
-		}
+.nav-links a {
+	color: var(--text-muted);
+	text-decoration: none;
+	padding: 4px 8px;
+	border-radius: 4px;
+	transition: all 0.2s;
+	font-size: 0.9em;
+}
 
-		h1 {
-			font-size: 2em;
-			margin-top: 0;
-		}
+.nav-links a:hover {
+	color: var(--interactive-accent);
+}
 
-		h2 {
-			font-size: 1.6em;
-		}
+.nav-links a.active {
+	color: var(--interactive-accent);
+	font-weight: 500;
+}
 
-		h3 {
-			font-size: 1.37em;
-		}
+.markdown-content {
+	font-size: 16px;
+}
 
-		h4 {
-			font-size: 1.25em;
-		}
+h1, h2, h3, h4, h5, h6 {
+	font-weight: 600;
+	line-height: 1.3;
+	color: var(--text-normal);
+	margin-top: 1.5em;
+	margin-bottom: 0.5em;
+}
 
-		h5 {
-			font-size: 1.12em;
-		}
+h1 {
+	font-size: 2em;
+	margin-top: 0;
+}
 
-		h6 {
-			font-size: 1em;
-		}
+h2 {
+	font-size: 1.6em;
+}
 
-		p {
-			margin-bottom: 1em;
-		}
+h3 {
+	font-size: 1.37em;
+}
 
-		a {
-			color: var(--interactive-accent);
-			text-decoration: none;
-		}
+h4 {
+	font-size: 1.25em;
+}
 
-		a:hover {
-			color: var(--interactive-accent-hover);
-		}
+h5 {
+	font-size: 1.12em;
+}
 
-		strong {
-			font-weight: 600;
-			color: var(--text-normal);
-		}
+h6 {
+	font-size: 1em;
+}
 
-		em {
-			color: var(--text-normal);
-		}
+p {
+	margin-bottom: 1em;
+}
 
-		code {
-			background: var(--code-background);
-			color: #eb5757;
-			padding: 0.2em 0.4em;
-			border-radius: 3px;
-			font-family: "Menlo", "Monaco", "Courier New", monospace;
-			font-size: 0.9em;
-		}
+a {
+	color: var(--interactive-accent);
+	text-decoration: none;
+}
 
-		pre {
-			background: var(--background-secondary);
-			color: var(--text-normal);
-			padding: 1em;
-			border-radius: 4px;
-			overflow-x: auto;
-			margin: 1em 0;
-			line-height: 1.5;
-		}
+a:hover {
+	color: var(--interactive-accent-hover);
+}
 
-		pre code {
-			background: none;
-			color: inherit;
-			padding: 0;
-			font-size: 0.875em;
-		}
+strong {
+	font-weight: 600;
+	color: var(--text-normal);
+}
 
-		blockquote {
-			border-left: 2px solid var(--blockquote-border);
-			padding-left: 1em;
-			margin: 1em 0;
-			color: var(--text-muted);
-		}
+em {
+	color: var(--text-normal);
+}
 
-		ul, ol {
-			margin: 1em 0;
-			padding-left: 2em;
-		}
+code {
+	background: var(--code-background);
+	color: var(--code-normal);
+	padding: 0.2em 0.4em;
+	border-radius: 3px;
+	font-family: "Menlo", "Monaco", "Courier New", monospace;
+	font-size: 0.9em;
+}
 
-		li {
-			margin-bottom: 0.25em;
-		}
+pre {
+	background: var(--background-secondary);
+	color: var(--text-normal);
+	padding: 1em;
+	border-radius: 4px;
+	overflow-x: auto;
+	margin: 1em 0;
+	line-height: 1.5;
+}
+
+pre code {
+	background: none;
+	color: inherit;
+	padding: 0;
+	font-size: 0.875em;
+}
+
+blockquote {
+	border-left: 2px solid var(--blockquote-border);
+	padding-left: 1em;
+	margin: 1em 0;
+	color: var(--text-muted);
+}
+
+ul, ol {
+	margin: 1em 0;
+	padding-left: 2em;
+}
+
+li {
+	margin-bottom: 0.25em;
+}
+
+li > p {
+	margin-bottom: 0.25em;
+}
+
+hr {
+	border: none;
+	border-top: 1px solid var(--background-modifier-border);
+	margin: 2em 0;
+}
+
+table {
+	border-collapse: collapse;
+	width: 100%;
+	margin: 1em 0;
+}
+
+th, td {
+	border: 1px solid var(--background-modifier-border);
+	padding: 0.5em;
+	text-align: left;
+}
+
+th {
+	background: var(--background-secondary);
+	font-weight: 600;
+}
+
+img {
+	max-width: 100%;
+	height: auto;
+	margin: 1em 0;
+}
+
+.markdown-embed {
+	border-left: 2px solid var(--interactive-accent);
+	padding: 0.25em 0 0.25em 1em;
+	margin: 1em 0;
+}
+
+.markdown-embed.is-unresolved {
+	color: var(--text-muted);
+	font-style: italic;
+}
+
+.callout {
+	--callout-color: 8, 109, 221;
+	background: var(--callout-background);
+	background-image: linear-gradient(rgba(var(--callout-color), 0.08), rgba(var(--callout-color), 0.08));
+	border-left: 4px solid rgb(var(--callout-color));
+	border-radius: 4px;
+	padding: 0.75em 1em;
+	margin: 1em 0;
+}
+
+.callout[data-callout="abstract"], .callout[data-callout="summary"], .callout[data-callout="tldr"],
+.callout[data-callout="tip"], .callout[data-callout="hint"], .callout[data-callout="important"] {
+	--callout-color: 0, 191, 188;
+}
+
+.callout[data-callout="success"], .callout[data-callout="check"], .callout[data-callout="done"] {
+	--callout-color: 8, 185, 78;
+}
+
+.callout[data-callout="question"], .callout[data-callout="help"], .callout[data-callout="faq"],
+.callout[data-callout="warning"], .callout[data-callout="caution"], .callout[data-callout="attention"] {
+	--callout-color: 236, 117, 0;
+}
+
+.callout[data-callout="failure"], .callout[data-callout="fail"], .callout[data-callout="missing"],
+.callout[data-callout="danger"], .callout[data-callout="error"], .callout[data-callout="bug"] {
+	--callout-color: 233, 49, 71;
+}
+
+.callout[data-callout="example"] {
+	--callout-color: 120, 82, 238;
+}
+
+.callout[data-callout="quote"], .callout[data-callout="cite"] {
+	--callout-color: 158, 158, 158;
+}
+
+.callout-title {
+	display: flex;
+	align-items: center;
+	gap: 0.5em;
+	font-weight: 600;
+	color: rgb(var(--callout-color));
+}
+
+.callout.is-collapsible > .callout-title {
+	cursor: pointer;
+}
+
+.callout-icon, .callout-fold {
+	display: flex;
+}
+
+.callout-icon svg, .callout-fold svg {
+	width: 18px;
+	height: 18px;
+}
+
+.callout-fold svg {
+	transition: transform 0.1s ease;
+}
+
+.callout.is-collapsed .callout-fold svg {
+	transform: rotate(-90deg);
+}
+
+.callout-content > :first-child {
+	margin-top: 0.5em;
+}
+
+.callout-content > :last-child {
+	margin-bottom: 0;
+}
+
+.token.comment, .token.prolog, .token.doctype, .token.cdata {
+	color: var(--code-comment);
+	font-style: italic;
+}
+
+.token.keyword, .token.atrule, .token.important, .token.rule {
+	color: var(--code-keyword);
+}
+
+.token.string, .token.char, .token.attr-value, .token.regex, .token.inserted {
+	color: var(--code-string);
+}
+
+.token.function, .token.class-name, .token.selector {
+	color: var(--code-function);
+}
+
+.token.number, .token.boolean, .token.constant, .token.symbol, .token.builtin {
+	color: var(--code-value);
+}
+
+.token.property, .token.attr-name, .token.variable {
+	color: var(--code-property);
+}
+
+.token.tag, .token.deleted, .token.entity {
+	color: var(--code-tag);
+}
 
-		li > p {
-			margin-bottom: 0.25em;
+.token.punctuation, .token.operator {
+	color: var(--text-muted);
+}
+
+.mermaid {
+	margin: 1em 0;
+	text-align: center;
+}
+
+.mermaid svg {
+	max-width: 100%;
+	height: auto;
+}
+
+.math-block {
+	margin: 1em 0;
+	overflow-x: auto;
+	text-align: center;
+}
+
+.math svg {
+	overflow: visible;
+}
+
+.color-scheme-toggle {
+	position: fixed;
+	top: 16px;
+	right: 16px;
+	width: 36px;
+	height: 36px;
+	border: 1px solid var(--background-modifier-border);
+	border-radius: 50%;
+	background: var(--background-secondary);
+	color: var(--text-muted);
+	font-size: 18px;
+	line-height: 1;
+	cursor: pointer;
+}
+
+.color-scheme-toggle::before {
+	content: var(--color-scheme-icon);
+}
+
+.color-scheme-toggle:hover {
+	color: var(--interactive-accent);
+}
+
+.site-search {
+	position: relative;
+	margin-bottom: 30px;
+}
+
+.site-search-input {
+	width: 100%;
+	padding: 8px 12px;
+	font: inherit;
+	font-size: 0.95em;
+	color: var(--text-normal);
+	background: var(--background-secondary);
+	border: 1px solid var(--background-modifier-border);
+	border-radius: 4px;
+}
+
+.site-search-input:focus {
+	outline: none;
+	border-color: var(--interactive-accent);
+}
+
+.site-search-results {
+	position: absolute;
+	z-index: 10;
+	left: 0;
+	right: 0;
+	max-height: 60vh;
+	overflow-y: auto;
+	margin: 4px 0 0;
+	padding: 0;
+	list-style: none;
+	background: var(--background-primary);
+	border: 1px solid var(--background-modifier-border);
+	border-radius: 4px;
+	box-shadow: 0 4px 16px rgba(0, 0, 0, 0.12);
+}
+
+.site-search-results[hidden] {
+	display: none;
+}
+
+.site-search-results li {
+	margin: 0;
+	padding: 8px 12px;
+	border-bottom: 1px solid var(--background-modifier-border);
+}
+
+.site-search-results li:last-child {
+	border-bottom: none;
+}
+
+.site-search-results p {
+	margin: 0.25em 0 0;
+	font-size: 0.85em;
+	color: var(--text-muted);
+}
+
+.site-search-empty {
+	color: var(--text-muted);
+}
+
+.protected-form {
+	max-width: 360px;
+	margin: 15vh auto 0;
+	text-align: center;
+}
+
+.protected-form input {
+	width: 100%;
+	padding: 8px 12px;
+	margin-bottom: 12px;
+	font: inherit;
+	color: var(--text-normal);
+	background: var(--background-secondary);
+	border: 1px solid var(--background-modifier-border);
+	border-radius: 4px;
+}
+
+.protected-form button {
+	padding: 8px 20px;
+	font: inherit;
+	color: var(--background-primary);
+	background: var(--interactive-accent);
+	border: none;
+	border-radius: 4px;
+	cursor: pointer;
+}
+
+.protected-form button:hover {
+	background: var(--interactive-accent-hover);
+}
+
+.protected-error {
+	margin-top: 12px;
+	color: var(--code-normal);
+}
+
+.page-list {
+	list-style: none;
+	padding-left: 0;
+}
+
+.page-list li {
+	margin-bottom: 1.25em;
+}
+
+.page-list time {
+	margin-left: 0.5em;
+	font-size: 0.85em;
+	color: var(--text-faint);
+}
+
+.page-list-description {
+	margin: 0.25em 0 0;
+	color: var(--text-muted);
+}
+
+.backlinks {
+	margin-top: 3em;
+	padding-top: 1.5em;
+	border-top: 1px solid var(--background-modifier-border);
+}
+
+.backlinks-title {
+	font-size: 1em;
+	margin-top: 0;
+	color: var(--text-muted);
+}
+
+.backlinks-list {
+	list-style: none;
+	padding-left: 0;
+}
+
+.backlinks-list li {
+	margin-bottom: 1em;
+}
+
+.backlink-context {
+	margin: 0.25em 0 0;
+	font-size: 0.9em;
+	color: var(--text-muted);
+}
+
+.toc {
+	font-size: 0.9em;
+	margin-bottom: 2em;
+}
+
+.toc summary {
+	cursor: pointer;
+	font-weight: 600;
+	color: var(--text-muted);
+	margin-bottom: 0.5em;
+}
+
+.toc-list {
+	list-style: none;
+	margin: 0;
+	padding: 0;
+	border-left: 1px solid var(--background-modifier-border);
+}
+
+.toc-list li {
+	margin: 0;
+}
+
+.toc-list a {
+	display: block;
+	padding: 2px 0 2px 12px;
+	margin-left: -1px;
+	border-left: 2px solid transparent;
+	color: var(--text-muted);
+}
+
+.toc-list a:hover {
+	color: var(--interactive-accent);
+}
+
+.toc-list a.active {
+	color: var(--interactive-accent);
+	border-left-color: var(--interactive-accent);
+}
+
+.toc-depth-1 a {
+	padding-left: 24px;
+}
+
+.toc-depth-2 a {
+	padding-left: 36px;
+}
+
+.toc-depth-3 a {
+	padding-left: 48px;
+}
+
+.toc-depth-4 a {
+	padding-left: 60px;
+}
+
+.toc-depth-5 a {
+	padding-left: 72px;
+}
+
+@media (min-width: 1100px) {
+	.container.has-toc {
+		max-width: 1100px;
+		display: grid;
+		grid-template-columns: minmax(0, 780px) 240px;
+		gap: 40px;
+	}
+
+	.has-toc .content {
+		grid-column: 1;
+		grid-row: 1;
+	}
+
+	.has-toc .toc {
+		grid-column: 2;
+		grid-row: 1;
+		position: sticky;
+		top: 40px;
+		align-self: start;
+		max-height: calc(100vh - 80px);
+		overflow-y: auto;
+		margin-bottom: 0;
+	}
+
+	.toc summary {
+		pointer-events: none;
+		list-style: none;
+	}
+
+	.toc summary::-webkit-details-marker {
+		display: none;
+	}
+}
+
+.task-list-item {
+	list-style: none;
+}
+
+.task-list-item input[type="checkbox"] {
+	margin-right: 0.5em;
+}
+
+@media (max-width: 768px) {
+	.container {
+		padding: 20px 15px;
+	}
+
+	h1 {
+		font-size: 1.75em;
+	}
+
+	h2 {
+		font-size: 1.5em;
+	}
+}
+${theme.css ? `\n/* Theme: ${theme.name} */\n${theme.css}` : ""}
+`;
+	}
+
+	/**
+	 * Inline script for the light/dark toggle. Runs in <head> so a stored choice
+	 * is applied before the first paint, and handles clicks on the toggle button.
+	 */
+	private generateColorSchemeScript(): string {
+		return `(function () {
+		var root = document.documentElement;
+		try {
+			var stored = localStorage.getItem("${COLOR_SCHEME_STORAGE_KEY}");
+			if (stored === "light" || stored === "dark") root.setAttribute("data-color-scheme", stored);
+		} catch (e) {}
+		document.addEventListener("click", function (event) {
+			if (!event.target.closest || !event.target.closest(".color-scheme-toggle")) return;
+			var current = root.getAttribute("data-color-scheme") || (window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light");
+			var next = current === "dark" ? "light" : "dark";
+			root.setAttribute("data-color-scheme", next);
+			try { localStorage.setItem("${COLOR_SCHEME_STORAGE_KEY}", next); } catch (e) {}
+		});
+	})();`;
+	}
+
+	/**
+	 * The document title: the page title, followed by the site title when there is one
+	 */
+	private getDocumentTitle(page: PageData): string {
+		const title = page.encryptedBody ? PROTECTED_PAGE_TITLE : page.title;
+		return page.siteTitle && page.siteTitle !== title ? `${title} | ${page.siteTitle}` : title;
+	}
+
+	/**
+	 * Inline scripts for the page's features. On protected pages they run once the page is unlocked.
+	 */
+	private renderPageScripts(page: PageData): string {
+		const scripts: string[] = [];
+		if (page.toc?.length) {
+			scripts.push(this.generateTocScript());
+		}
+		if (page.searchIndexUrl) {
+			scripts.push(this.generateSearchScript(page.searchIndexUrl));
+		}
+		if (page.content.includes("is-collapsible")) {
+			scripts.push(this.generateCalloutScript());
 		}
 
-		hr {
-			border: none;
-			border-top: 1px solid var(--background-modifier-border);
-			margin: 2em 0;
+		if (!page.encryptedBody) {
+			return scripts.map(script => `<script>${script}</script>`).join("\n\t");
 		}
 
-		table {
-			border-collapse: collapse;
-			width: 100%;
-			margin: 1em 0;
+		// The content of a protected page only exists once the reader unlocks it
+		const unlock = `<script>${this.generateUnlockScript()}</script>`;
+		return scripts.length > 0
+			? `${unlock}\n\t<script>document.addEventListener("page-unlocked", function () {\n${scripts.join("\n")}\n});</script>`
+			: unlock;
+	}
+
+	/**
+	 * Password form shown in place of a protected page's body, with the encrypted body embedded as JSON
+	 */
+	private renderUnlockForm(payload: EncryptedPayload): string {
+		return `<div class="container protected-page">
+		<main class="content">
+			<form class="protected-form">
+				<h1>${PROTECTED_PAGE_TITLE}</h1>
+				<p>Enter the password to view this page.</p>
+				<input type="password" class="protected-password" aria-label="Password" autocomplete="current-password" required autofocus>
+				<button type="submit">Unlock</button>
+				<p class="protected-error" hidden>Wrong password, please try again.</p>
+			</form>
+		</main>
+	</div>
+	<script type="application/json" id="protected-page-data">${JSON.stringify(payload)}</script>`;
+	}
+
+	/**
+	 * Inline script that derives the key from the password (PBKDF2), decrypts the body (AES-GCM)
+	 * and remembers the key for the session, so the other pages in the folder open directly
+	 */
+	private generateUnlockScript(): string {
+		return `(function () {
+		var payload = JSON.parse(document.getElementById("protected-page-data").textContent);
+		var form = document.querySelector(".protected-form");
+		var input = form.querySelector("input");
+		var error = form.querySelector(".protected-error");
+		var storageKey = "page-key:" + payload.salt;
+		function bytes(base64) {
+			return Uint8Array.from(atob(base64), function (c) { return c.charCodeAt(0); });
+		}
+		function unlock(rawKey) {
+			return crypto.subtle.importKey("raw", rawKey, "AES-GCM", false, ["decrypt"])
+				.then(function (key) { return crypto.subtle.decrypt({ name: "AES-GCM", iv: bytes(payload.iv) }, key, bytes(payload.data)); })
+				.then(function (html) {
+					try { sessionStorage.setItem(storageKey, btoa(String.fromCharCode.apply(null, new Uint8Array(rawKey)))); } catch (e) {}
+					document.querySelector(".protected-page").outerHTML = new TextDecoder().decode(html);
+					document.dispatchEvent(new Event("page-unlocked"));
+				});
 		}
+		var stored = null;
+		try { stored = sessionStorage.getItem(storageKey); } catch (e) {}
+		if (stored) unlock(bytes(stored)).catch(function () {});
+		form.addEventListener("submit", function (event) {
+			event.preventDefault();
+			error.hidden = true;
+			crypto.subtle.importKey("raw", new TextEncoder().encode(input.value), "PBKDF2", false, ["deriveBits"])
+				.then(function (material) {
+					return crypto.subtle.deriveBits({ name: "PBKDF2", salt: bytes(payload.salt), iterations: payload.iterations, hash: "SHA-256" }, material, 256);
+				})
+				.then(unlock)
+				.catch(function () { error.hidden = false; input.select(); });
+		});
+	})();`;
+	}
 
-		th, td {
-			border: 1px solid var(--background-modifier-border);
-			padding: 0.5em;
-			text-align: left;
+	/**
+	 * Inline script for the table of contents: collapses it on narrow screens and
+	 * highlights the section currently scrolled into view
+	 */
+	private generateTocScript(): string {
+		return `(function () {
+		var toc = document.querySelector(".toc");
+		if (!toc) return;
+		var details = toc.querySelector("details");
+		if (details && !window.matchMedia("(min-width: 1100px)").matches) details.removeAttribute("open");
+		var links = Array.prototype.slice.call(toc.querySelectorAll("a[href^='#']"));
+		var headings = links.map(function (link) { return document.getElementById(link.getAttribute("href").slice(1)); });
+		function update() {
+			var active = -1;
+			headings.forEach(function (heading, index) {
+				if (heading && heading.getBoundingClientRect().top <= 80) active = index;
+			});
+			links.forEach(function (link, index) { link.classList.toggle("active", index === Math.max(active, 0)); });
 		}
+		window.addEventListener("scroll", update, { passive: true });
+		update();
+	})();`;
+	}
 
-		th {
-			background: var(--background-secondary);
-			font-weight: 600;
+	/**
+	 * Inline script that folds and unfolds collapsible callouts, like clicking their title in Obsidian
+	 */
+	private generateCalloutScript(): string {
+		return `(function () {
+		document.querySelectorAll(".callout.is-collapsible > .callout-title").forEach(function (title) {
+			title.addEventListener("click", function () {
+				var callout = title.parentElement;
+				var collapsed = callout.classList.toggle("is-collapsed");
+				var content = callout.querySelector(".callout-content");
+				if (content) content.style.display = collapsed ? "none" : "";
+			});
+		});
+	})();`;
+	}
+
+	/**
+	 * Inline script for the site search box. Downloads the search index on first use
+	 * and matches every word of the query against titles, headings and text.
+	 */
+	private generateSearchScript(indexUrl: string): string {
+		return `(function () {
+		var search = document.querySelector(".site-search");
+		if (!search) return;
+		var input = search.querySelector("input");
+		var results = search.querySelector(".site-search-results");
+		var index = null;
+		function load() {
+			if (!index) {
+				index = fetch(${JSON.stringify(indexUrl)})
+					.then(function (response) { return response.json(); })
+					.catch(function () { return []; });
+			}
+			return index;
+		}
+		function render(query, documents) {
+			results.innerHTML = "";
+			var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+			if (!terms.length) { results.hidden = true; return; }
+			var matches = [];
+			documents.forEach(function (doc) {
+				var title = doc.t.toLowerCase(), headings = doc.h.join(" ").toLowerCase(), text = doc.x.toLowerCase();
+				var score = 0;
+				for (var i = 0; i < terms.length; i++) {
+					var termScore = (title.indexOf(terms[i]) !== -1 ? 10 : 0) + (headings.indexOf(terms[i]) !== -1 ? 5 : 0) + (text.indexOf(terms[i]) !== -1 ? 1 : 0);
+					if (!termScore) return;
+					score += termScore;
+				}
+				matches.push({ doc: doc, score: score, at: text.indexOf(terms[0]) });
+			});
+			matches.sort(function (a, b) { return b.score - a.score; });
+			matches.slice(0, 10).forEach(function (match) {
+				var item = document.createElement("li");
+				var link = document.createElement("a");
+				link.href = match.doc.u;
+				link.textContent = match.doc.t;
+				item.appendChild(link);
+				if (match.at !== -1) {
+					var start = Math.max(0, match.at - 40);
+					var context = document.createElement("p");
+					context.textContent = (start > 0 ? "…" : "") + match.doc.x.substring(start, start + 120) + "…";
+					item.appendChild(context);
+				}
+				results.appendChild(item);
+			});
+			if (!matches.length) {
+				var empty = document.createElement("li");
+				empty.className = "site-search-empty";
+				empty.textContent = "No results";
+				results.appendChild(empty);
+			}
+			results.hidden = false;
 		}
+		input.addEventListener("focus", load);
+		input.addEventListener("input", function () {
+			var query = input.value;
+			load().then(function (documents) { if (input.value === query) render(query, documents); });
+		});
+		input.addEventListener("keydown", function (event) {
+			if (event.key === "Escape") { input.value = ""; results.hidden = true; }
+		});
+		document.addEventListener("click", function (event) {
+			if (!search.contains(event.target)) results.hidden = true;
+		});
+	})();`;
+	}
+
+	private formatVariables(variables: Record<string, string>, indent: string): string {
+		return Object.entries(variables)
+			.map(([name, value]) => `${indent}${name}: ${value};`)
+			.join("\n");
+	}
+
+	/**
+	 * Description, canonical URL, OpenGraph and Twitter card tags for link previews
+	 */
+	private renderMetaTags(page: PageData): string {
+		const tags: string[] = [];
+		const meta = (attribute: "name" | "property", key: string, value?: string) => {
+			if (value) {
+				tags.push(`<meta ${attribute}="${key}" content="${this.escapeAttribute(value)}">`);
+			}
+		};
 
-		img {
-			max-width: 100%;
-			height: auto;
-			margin: 1em 0;
+		meta("name", "description", page.description);
+		meta("name", "author", page.author);
+		if (page.canonicalUrl) {
+			tags.push(`<link rel="canonical" href="${this.escapeAttribute(page.canonicalUrl)}">`);
 		}
 
-		.task-list-item {
-			list-style: none;
+		meta("property", "og:type", page.slug ? "article" : "website");
+		meta("property", "og:title", page.encryptedBody ? PROTECTED_PAGE_TITLE : page.title);
+		meta("property", "og:description", page.description);
+		meta("property", "og:url", page.canonicalUrl);
+		meta("property", "og:image", page.image);
+		meta("property", "og:site_name", page.siteTitle);
+
+		meta("name", "twitter:card", page.image ? "summary_large_image" : "summary");
+		meta("name", "twitter:title", page.encryptedBody ? PROTECTED_PAGE_TITLE : page.title);
+		meta("name", "twitter:description", page.description);
+		meta("name", "twitter:image", page.image);
+
+		return tags.join("\n\t");
+	}
+
+	/**
+	 * Content of the site home page: every published page, newest first
+	 */
+	renderPageList(entries: SiteIndexEntry[]): string {
+		if (entries.length === 0) {
+			return "<p>Nothing has been published yet.</p>";
 		}
 
-		.task-list-item input[type="checkbox"] {
-			margin-right: 0.5em;
+		const items = [...entries]
+			.sort((a, b) => b.publishedAt - a.publishedAt)
+			.map(entry => {
+				const date = new Date(entry.publishedAt).toISOString().substring(0, 10);
+				const description = entry.description ? `<p class="page-list-description">${this.escapeHtml(entry.description)}</p>` : "";
+				return `<li><a href="${this.escapeAttribute(entry.url)}">${this.escapeHtml(entry.title)}</a> <time datetime="${date}">${date}</time>${description}</li>`;
+			})
+			.join("");
+		return `<ul class="page-list">${items}</ul>`;
+	}
+
+	/**
+	 * Render the page body through its layout
+	 */
+	renderBody(page: PageData): string {
+		const engine = new LayoutEngine(page.layout?.partials);
+		return engine.render(page.layout?.template ?? DEFAULT_LAYOUT, this.getLayoutData(page));
+	}
+
+	/**
+	 * Placeholders available to layouts and partials
+	 */
+	private getLayoutData(page: PageData): LayoutData {
+		return {
+			title: page.title,
+			description: page.description,
+			slug: page.slug,
+			siteTitle: page.siteTitle,
+			searchHtml: page.searchIndexUrl
+				? "<div class=\"site-search\" role=\"search\"><input type=\"search\" class=\"site-search-input\" placeholder=\"Search…\" aria-label=\"Search this site\" autocomplete=\"off\"><ul class=\"site-search-results\" hidden></ul></div>"
+				: "",
+			content: page.content,
+			date: page.modified ? new Date(page.modified).toISOString().substring(0, 10) : "",
+			tags: (page.tags ?? []).map(tag => ({ tag })),
+			navigation: (page.navigation ?? []).map(item => ({ ...item })),
+			navigationHtml: this.renderNavigation(page.navigation ?? []),
+			toc: (page.toc ?? []).map(entry => ({ ...entry })),
+			tocHtml: this.renderToc(page.toc ?? []),
+			backlinks: (page.backlinks ?? []).map(backlink => ({
+				title: backlink.title,
+				url: backlink.url,
+				snippets: backlink.snippets.map(snippet => ({ snippet }))
+			})),
+			backlinksHtml: this.renderBacklinks(page.backlinks ?? [])
+		};
+	}
+
+	private renderBacklinks(backlinks: Backlink[]): string {
+		if (backlinks.length === 0) {
+			return "";
 		}
 
-		@media (max-width: 768px) {
-			.container {
-				padding: 20px 15px;
-			}
+		const items = backlinks.map(backlink => {
+			const snippets = backlink.snippets
+				.map(snippet => `<p class="backlink-context">${this.escapeHtml(snippet)}</p>`)
+				.join("");
+			return `<li><a href="${this.escapeAttribute(backlink.url)}">${this.escapeHtml(backlink.title)}</a>${snippets}</li>`;
+		}).join("");
+		return `<section class="backlinks"><h2 class="backlinks-title">Linked from</h2><ul class="backlinks-list">${items}</ul></section>`;
+	}
 
-			h1 {
-				font-size: 1.75em;
-			}
+	/**
+	 * Table of contents as a <details> block: a sticky sidebar on wide screens, collapsible on small ones
+	 */
+	private renderToc(entries: TocEntry[]): string {
+		if (entries.length === 0) {
+			return "";
+		}
 
-			h2 {
-				font-size: 1.5em;
-			}
+		const topLevel = Math.min(...entries.map(entry => entry.level));
+		const items = entries.map(entry =>
+			`<li class="toc-depth-${entry.level - topLevel}"><a href="#${this.escapeAttribute(entry.id)}">${this.escapeHtml(entry.text)}</a></li>`
+		).join("");
+		return `<nav class="toc" aria-label="Table of contents"><details open><summary>Contents</summary><ul class="toc-list">${items}</ul></details></nav>`;
+	}
+
+	private renderNavigation(items: NavigationItem[]): string {
+		if (items.length === 0) {
+			return "";
 		}
-	</style>
-</head>
-<body>
-	<div class="container">
-		<main class="content">
-			<h1>${this.escapeHtml(page.title)}</h1>
-			<div class="markdown-content">
-				${page.content}
-			</div>
-		</main>
-	</div>
-</body>
-</html>`;
+
+		const links = items.map(item =>
+			`<li><a href="${this.escapeAttribute(item.url)}"${item.active ? " class=\"active\"" : ""}>${this.escapeHtml(item.title)}</a></li>`
+		).join("");
+		return `<nav class="nav"><ul class="nav-links">${links}</ul></nav>`;
 	}
 
+	private hasDarkPalette(theme: ThemeDefinition): boolean {
+		return Object.keys(theme.darkVariables ?? {}).length > 0;
+	}
+
+	private getDefaultTheme(): ThemeDefinition {
+		return BUNDLED_THEMES.find(t => t.name === DEFAULT_THEME) ?? { name: DEFAULT_THEME, variables: {} };
+	}
 
 	private escapeHtml(text: string): string {
 		const div = document.createElement("div");
 		div.textContent = text;
 		return div.innerHTML;
 	}
+
+	private escapeAttribute(text: string): string {
+		return this.escapeHtml(text).replace(/"/g, "&quot;");
+	}
 }
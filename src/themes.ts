@@ -0,0 +1,248 @@
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+
+export interface ThemeDefinition {
+	name: string;
+	variables: Record<string, string>;  // CSS custom properties, e.g. "--text-normal": "#546373"
+	darkVariables?: Record<string, string>;  // overrides used when the reader prefers a dark color scheme
+	css?: string;  // extra stylesheet appended after the base styles
+}
+
+// Optional "<theme>.json" next to a vault theme's CSS file
+interface VaultThemeConfig {
+	base?: string;  // bundled theme to start from
+	variables?: Record<string, string>;
+	darkVariables?: Record<string, string>;
+}
+
+export const DEFAULT_THEME = "default";
+
+// Colors of Prism's syntax highlighting tokens, shared by the bundled themes
+const SYNTAX_VARIABLES: Record<string, string> = {
+	"--code-comment": "#8E959C",
+	"--code-keyword": "#A626A4",
+	"--code-string": "#50A14F",
+	"--code-function": "#4078F2",
+	"--code-value": "#C18401",
+	"--code-property": "#986801",
+	"--code-tag": "#E45649"
+};
+
+const SYNTAX_DARK_VARIABLES: Record<string, string> = {
+	"--code-comment": "#7F848E",
+	"--code-keyword": "#C678DD",
+	"--code-string": "#98C379",
+	"--code-function": "#61AFEF",
+	"--code-value": "#D19A66",
+	"--code-property": "#E5C07B",
+	"--code-tag": "#E06C75"
+};
+
+export const BUNDLED_THEMES: ThemeDefinition[] = [
+	{
+		name: DEFAULT_THEME,
+		variables: {
+			...SYNTAX_VARIABLES,
+			"--background-primary": "#F2F0EF",
+			"--background-secondary": "#f5f5f5",
+			"--text-normal": "#546373",
+			"--text-muted": "#6c7680",
+			"--text-faint": "#CBCBCB",
+			"--interactive-accent": "#36404A",
+			"--interactive-accent-hover": "#6D8196",
+			"--background-modifier-border": "#e0e0e0",
+			"--code-background": "#f5f5f5",
+			"--code-normal": "#eb5757",
+			"--callout-background": "#EAE7E5",
+			"--blockquote-border": "#8683a0"
+		},
+		darkVariables: {
+			...SYNTAX_DARK_VARIABLES,
+			"--background-primary": "#1E1F22",
+			"--background-secondary": "#26282C",
+			"--text-normal": "#D4D7DC",
+			"--text-muted": "#9AA1AB",
+			"--text-faint": "#4A4F57",
+			"--interactive-accent": "#A9B8C8",
+			"--interactive-accent-hover": "#CBD6E2",
+			"--background-modifier-border": "#363A40",
+			"--code-background": "#2B2E33",
+			"--code-normal": "#F28B82",
+			"--callout-background": "#26282C",
+			"--blockquote-border": "#8683a0"
+		}
+	},
+	{
+		name: "sepia",
+		variables: {
+			...SYNTAX_VARIABLES,
+			"--background-primary": "#F6EFE2",
+			"--background-secondary": "#EFE5D3",
+			"--text-normal": "#4B3F33",
+			"--text-muted": "#7A6A58",
+			"--text-faint": "#C9BBA6",
+			"--interactive-accent": "#8B4A2B",
+			"--interactive-accent-hover": "#B06A45",
+			"--background-modifier-border": "#E2D5BF",
+			"--code-background": "#EFE5D3",
+			"--code-normal": "#A8452B",
+			"--callout-background": "#EFE5D3",
+			"--blockquote-border": "#B59A76"
+		},
+		darkVariables: {
+			...SYNTAX_DARK_VARIABLES,
+			"--background-primary": "#221D17",
+			"--background-secondary": "#2C251D",
+			"--text-normal": "#E3D6C3",
+			"--text-muted": "#AE9E88",
+			"--text-faint": "#54493C",
+			"--interactive-accent": "#D99A6C",
+			"--interactive-accent-hover": "#EDB78F",
+			"--background-modifier-border": "#3D3428",
+			"--code-background": "#2C251D",
+			"--code-normal": "#E9967A",
+			"--callout-background": "#2C251D",
+			"--blockquote-border": "#8A7355"
+		}
+	},
+	{
+		name: "slate",
+		variables: {
+			...SYNTAX_VARIABLES,
+			"--background-primary": "#FFFFFF",
+			"--background-secondary": "#F1F4F8",
+			"--text-normal": "#2E3A48",
+			"--text-muted": "#5F6B7A",
+			"--text-faint": "#B8C2CE",
+			"--interactive-accent": "#2F6FB3",
+			"--interactive-accent-hover": "#4D8FD6",
+			"--background-modifier-border": "#DDE3EA",
+			"--code-background": "#F1F4F8",
+			"--code-normal": "#C2185B",
+			"--callout-background": "#F1F4F8",
+			"--blockquote-border": "#2F6FB3"
+		},
+		darkVariables: {
+			...SYNTAX_DARK_VARIABLES,
+			"--background-primary": "#161B22",
+			"--background-secondary": "#1F2630",
+			"--text-normal": "#D5DCE5",
+			"--text-muted": "#93A0B0",
+			"--text-faint": "#3E4856",
+			"--interactive-accent": "#6AA7E8",
+			"--interactive-accent-hover": "#93C1F2",
+			"--background-modifier-border": "#2D3643",
+			"--code-background": "#1F2630",
+			"--code-normal": "#F48FB1",
+			"--callout-background": "#1F2630",
+			"--blockquote-border": "#6AA7E8"
+		}
+	}
+];
+
+/**
+ * Path of a theme's shared stylesheet, relative to the site root (or export folder)
+ */
+export function getThemeStylesheetPath(themeName: string): string {
+	const id = themeName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || DEFAULT_THEME;
+	return `_site/themes/${id}.css`;
+}
+
+/**
+ * Loads bundled themes and user themes from a vault folder.
+ * A vault theme is a "<name>.css" file, optionally with a "<name>.json" holding
+ * { "base": "sepia", "variables": { "--text-normal": "#333" }, "darkVariables": { "--text-normal": "#ddd" } }.
+ */
+export class ThemeLoader {
+	private app: App;
+	private themesFolder: string;
+	private loaded = new Map<string, ThemeDefinition>();
+	private used = new Set<ThemeDefinition>();
+
+	constructor(app: App, themesFolder: string) {
+		this.app = app;
+		this.themesFolder = themesFolder ? normalizePath(themesFolder) : "";
+	}
+
+	/**
+	 * Names of all available themes, bundled first
+	 */
+	listThemes(): string[] {
+		const names = BUNDLED_THEMES.map(t => t.name);
+
+		const folder = this.themesFolder ? this.app.vault.getAbstractFileByPath(this.themesFolder) : null;
+		if (folder instanceof TFolder) {
+			for (const child of folder.children) {
+				if (child instanceof TFile && child.extension === "css" && !names.includes(child.basename)) {
+					names.push(child.basename);
+				}
+			}
+		}
+
+		return names;
+	}
+
+	/**
+	 * Load a theme by name, falling back to the default theme if it doesn't exist
+	 */
+	async loadTheme(name: string): Promise<ThemeDefinition> {
+		const existing = this.loaded.get(name);
+		if (existing) {
+			return existing;
+		}
+
+		const theme = await this.loadVaultTheme(name) ?? this.getBundledTheme(name);
+		if (!theme) {
+			console.warn(`Theme "${name}" not found, using the default theme`);
+			return this.loadTheme(DEFAULT_THEME);
+		}
+
+		this.loaded.set(name, theme);
+		return theme;
+	}
+
+	/**
+	 * Load a theme and remember it, so its stylesheet is written once for all pages using it
+	 */
+	async useTheme(name: string): Promise<ThemeDefinition> {
+		const theme = await this.loadTheme(name);
+		this.used.add(theme);
+		return theme;
+	}
+
+	getUsedThemes(): ThemeDefinition[] {
+		return Array.from(this.used);
+	}
+
+	private getBundledTheme(name: string): ThemeDefinition | undefined {
+		return BUNDLED_THEMES.find(t => t.name === name);
+	}
+
+	private async loadVaultTheme(name: string): Promise<ThemeDefinition | null> {
+		if (!this.themesFolder) {
+			return null;
+		}
+
+		const cssFile = this.app.vault.getAbstractFileByPath(normalizePath(`${this.themesFolder}/${name}.css`));
+		if (!(cssFile instanceof TFile)) {
+			return null;
+		}
+
+		let config: VaultThemeConfig = {};
+		const configFile = this.app.vault.getAbstractFileByPath(normalizePath(`${this.themesFolder}/${name}.json`));
+		if (configFile instanceof TFile) {
+			try {
+				config = JSON.parse(await this.app.vault.read(configFile)) as VaultThemeConfig;
+			} catch (error) {
+				console.warn(`Ignoring invalid theme config ${configFile.path}:`, error);
+			}
+		}
+
+		const base = this.getBundledTheme(config.base ?? DEFAULT_THEME) ?? this.getBundledTheme(DEFAULT_THEME);
+		return {
+			name,
+			variables: { ...base?.variables, ...config.variables },
+			darkVariables: { ...base?.darkVariables, ...config.darkVariables },
+			css: await this.app.vault.read(cssFile)
+		};
+	}
+}
@@ -1,9 +1,20 @@
-import { requestUrl } from "obsidian";
+import { requestUrl, RequestUrlResponse } from "obsidian";
 
 export interface VercelFile {
 	file: string;  // file path
-	data: string;  // file content
-	encoding?: "utf-8" | "base64";
+	data: string | ArrayBuffer | (() => Promise<ArrayBuffer>);  // file content, or a loader for binary assets
+	sha?: string;  // precomputed SHA-1 digest, skips reading the file unless Vercel needs it
+	size?: number;
+}
+
+/**
+ * Compute the hex SHA-1 digest Vercel uses to address uploaded files
+ */
+export async function sha1Hex(bytes: ArrayBuffer): Promise<string> {
+	const hashBuffer = await window.crypto.subtle.digest("SHA-1", bytes);
+	return Array.from(new Uint8Array(hashBuffer))
+		.map(b => b.toString(16).padStart(2, "0"))
+		.join("");
 }
 
 export interface DeploymentResponse {
@@ -23,14 +34,57 @@ interface VercelDeploymentApiResponse {
 	readyState?: string;
 }
 
-// Internal API response for deployment status
-interface VercelDeploymentStatusResponse {
-	readyState: string;
+export interface DeploymentStatus {
+	readyState: string;  // QUEUED, INITIALIZING, BUILDING, READY, ERROR or CANCELED
+	errorMessage?: string;
+}
+
+// Internal API response for one build log event
+interface VercelDeploymentEvent {
+	type?: string;
+	text?: string;
+	payload?: { text?: string };
+}
+
+// Internal API error body from Vercel
+interface VercelApiErrorResponse {
+	error?: {
+		code?: string;
+		message?: string;
+		missing?: string[];
+	};
+}
+
+// File reference sent to Vercel in place of inline content
+interface VercelFileReference {
+	file: string;
+	sha: string;
+	size: number;
+}
+
+/**
+ * A deployment of the project, as listed by Vercel
+ */
+export interface DeploymentSummary {
+	uid: string;
+	state: string;
+	created: number;
+	url?: string;  // unique deployment URL, without protocol
+	target?: string | null;  // "production", or null for previews
+	inspectorUrl?: string;
+	meta?: Record<string, string>;  // metadata sent with the deployment
 }
 
 // Internal API response for deployments list
 interface VercelDeploymentsListResponse {
-	deployments?: Array<{ uid: string; state: string; created: number }>;
+	deployments?: DeploymentSummary[];
+}
+
+// Internal API response for a project, only the fields in use
+interface VercelProjectResponse {
+	targets?: {
+		production?: { id: string };
+	};
 }
 
 export class VercelApi {
@@ -45,64 +99,147 @@ export class VercelApi {
 
 	/**
 	 * Deploy files to Vercel
+	 *
+	 * Files are referenced by their SHA-1 digest, so only blobs that Vercel
+	 * does not already have are uploaded before the deployment is created.
+	 * A staged deployment is built for production but leaves the production
+	 * domains alone until it is promoted.
 	 */
-	async deploy(files: VercelFile[]): Promise<DeploymentResponse> {
-		// Create deployment payload - Vercel expects inline file data
+	async deploy(files: VercelFile[], meta: Record<string, string> = {}, staged = false): Promise<DeploymentResponse> {
+		// Hash every file once, keeping a way to get at the bytes in case Vercel asks for them
+		const blobs = new Map<string, () => Promise<ArrayBuffer>>();
+		const references: VercelFileReference[] = [];
+		for (const f of files) {
+			const data = f.data;
+			if (f.sha && f.size !== undefined && typeof data === "function") {
+				blobs.set(f.sha, data);
+				references.push({ file: f.file, sha: f.sha, size: f.size });
+				continue;
+			}
+
+			const bytes = typeof data === "string"
+				? new TextEncoder().encode(data).buffer
+				: typeof data === "function" ? await data() : data;
+			const sha = await sha1Hex(bytes);
+			blobs.set(sha, () => Promise.resolve(bytes));
+			references.push({ file: f.file, sha, size: bytes.byteLength });
+		}
+
 		const payload = {
 			name: this.projectName,
-			files: files.map(f => {
-				const fileObj: { file: string; data: string; encoding?: string } = {
-					file: f.file,
-					data: f.data
-				};
-				// Include encoding if specified (base64 for images)
-				if (f.encoding) {
-					fileObj.encoding = f.encoding;
+			files: references,
+			target: "production",
+			...(staged ? { autoAssignCustomDomains: false } : {}),
+			meta
+		};
+
+		// Create deployment - using skipAutoDetectionConfirmation for static files
+		let deploymentResponse = await this.createDeployment(payload);
+
+		// Vercel lists the digests it has never seen - upload them and try again
+		const missing = this.getMissingFiles(deploymentResponse);
+		if (missing.length > 0) {
+			await this.uploadFiles(missing.map(sha => {
+				const read = blobs.get(sha);
+				if (!read) {
+					throw new Error(`Vercel requested an unknown file: ${sha}`);
 				}
-				return fileObj;
-			}),
-			target: "production"
+				return { sha, read };
+			}));
+			deploymentResponse = await this.createDeployment(payload);
+		}
+
+		if (deploymentResponse.status >= 400) {
+			throw this.toApiError(deploymentResponse);
+		}
+
+		const deployment = deploymentResponse.json as VercelDeploymentApiResponse;
+
+		// Return deployment info
+		return {
+			id: deployment.id,
+			url: deployment.url,
+			name: deployment.name,
+			inspectorUrl: deployment.inspectorUrl || `https://vercel.com/deployments/${deployment.id}`,
+			readyState: deployment.readyState || "QUEUED"
 		};
+	}
 
-		try {
-			// Create deployment - using skipAutoDetectionConfirmation for static files
-			const deploymentResponse = await requestUrl({
-				url: `${this.baseUrl}/v13/deployments?skipAutoDetectionConfirmation=1`,
-				method: "POST",
-				headers: {
-					"Authorization": `Bearer ${this.apiToken}`,
-					"Content-Type": "application/json"
-				},
-				body: JSON.stringify(payload)
-			});
+	private async createDeployment(payload: object): Promise<RequestUrlResponse> {
+		return requestUrl({
+			url: `${this.baseUrl}/v13/deployments?skipAutoDetectionConfirmation=1`,
+			method: "POST",
+			headers: {
+				"Authorization": `Bearer ${this.apiToken}`,
+				"Content-Type": "application/json"
+			},
+			body: JSON.stringify(payload),
+			throw: false
+		});
+	}
 
-			const deployment = deploymentResponse.json as VercelDeploymentApiResponse;
-
-			// Return deployment info
-			return {
-				id: deployment.id,
-				url: deployment.url,
-				name: deployment.name,
-				inspectorUrl: deployment.inspectorUrl || `https://vercel.com/deployments/${deployment.id}`,
-				readyState: deployment.readyState || "QUEUED"
-			};
-
-		} catch (error: unknown) {
-			console.error("Vercel deployment error:", error);
-			if (error && typeof error === "object" && "json" in error) {
-				const apiError = error as { json: { error?: { message?: string } } };
-				console.error("Error details:", apiError.json);
-				throw new Error(`Vercel API error: ${apiError.json.error?.message || JSON.stringify(apiError.json)}`);
-			}
-			throw error;
+	/**
+	 * Extract the digests from a "missing_files" response, if that is what it is
+	 */
+	private getMissingFiles(response: RequestUrlResponse): string[] {
+		if (response.status < 400) {
+			return [];
 		}
+
+		const body = this.parseErrorBody(response);
+		if (body.error?.code !== "missing_files") {
+			return [];
+		}
+
+		return body.error.missing || [];
 	}
 
+	/**
+	 * Upload raw file contents to Vercel's content-addressed file store
+	 */
+	private async uploadFiles(blobs: Array<{ sha: string; read: () => Promise<ArrayBuffer> }>): Promise<void> {
+		const concurrency = 4;
+
+		for (let i = 0; i < blobs.length; i += concurrency) {
+			await Promise.all(blobs.slice(i, i + concurrency).map(async ({ sha, read }) => {
+				const bytes = await read();
+				const response = await requestUrl({
+					url: `${this.baseUrl}/v2/files`,
+					method: "POST",
+					headers: {
+						"Authorization": `Bearer ${this.apiToken}`,
+						"Content-Type": "application/octet-stream",
+						"x-vercel-digest": sha
+					},
+					body: bytes,
+					throw: false
+				});
+
+				if (response.status >= 400) {
+					throw this.toApiError(response);
+				}
+			}));
+		}
+	}
+
+	private parseErrorBody(response: RequestUrlResponse): VercelApiErrorResponse {
+		try {
+			return response.json as VercelApiErrorResponse;
+		} catch {
+			return {};
+		}
+	}
+
+	private toApiError(response: RequestUrlResponse): Error {
+		const body = this.parseErrorBody(response);
+		console.error("Vercel API error details:", body);
+		return new Error(`Vercel API error: ${body.error?.message || response.text || `HTTP ${response.status}`}`);
+	}
 
 	/**
 	 * Get deployment status
 	 */
-	async getDeploymentStatus(deploymentId: string): Promise<string> {
+	async getDeploymentStatus(deploymentId: string): Promise<DeploymentStatus> {
 		const response = await requestUrl({
 			url: `${this.baseUrl}/v13/deployments/${deploymentId}`,
 			method: "GET",
@@ -111,24 +248,30 @@ export class VercelApi {
 			}
 		});
 
-		const data = response.json as VercelDeploymentStatusResponse;
-		return data.readyState;
+		const data = response.json as DeploymentStatus;
+		return { readyState: data.readyState, errorMessage: data.errorMessage };
 	}
 
 	/**
-	 * Wait for deployment to be ready
+	 * Wait for deployment to be ready, reporting every state it goes through.
+	 * A failed deployment throws with the end of its build log.
 	 */
-	async waitForDeployment(deploymentId: string, maxWaitTime = 300000): Promise<boolean> {
+	async waitForDeployment(deploymentId: string, onProgress?: (readyState: string) => void, maxWaitTime = 300000): Promise<boolean> {
 		const startTime = Date.now();
 		const pollInterval = 3000; // 3 seconds
+		let lastState = "";
 
 		while (Date.now() - startTime < maxWaitTime) {
 			const status = await this.getDeploymentStatus(deploymentId);
+			if (status.readyState !== lastState) {
+				lastState = status.readyState;
+				onProgress?.(lastState);
+			}
 
-			if (status === "READY") {
+			if (status.readyState === "READY") {
 				return true;
-			} else if (status === "ERROR" || status === "CANCELED") {
-				throw new Error(`Deployment failed with status: ${status}`);
+			} else if (status.readyState === "ERROR" || status.readyState === "CANCELED") {
+				throw await this.toDeploymentError(deploymentId, status);
 			}
 
 			// Wait before next poll
@@ -138,6 +281,38 @@ export class VercelApi {
 		throw new Error("Deployment timeout - took longer than expected");
 	}
 
+	/**
+	 * Get the build log of a deployment, oldest line first
+	 */
+	async getDeploymentEvents(deploymentId: string): Promise<string[]> {
+		const response = await requestUrl({
+			url: `${this.baseUrl}/v3/deployments/${deploymentId}/events?builds=1&limit=-1`,
+			method: "GET",
+			headers: {
+				"Authorization": `Bearer ${this.apiToken}`
+			},
+			throw: false
+		});
+
+		if (response.status >= 400 || !Array.isArray(response.json)) {
+			return [];
+		}
+
+		return (response.json as VercelDeploymentEvent[])
+			.map(event => event.payload?.text ?? event.text ?? "")
+			.filter(text => text.trim() !== "");
+	}
+
+	private async toDeploymentError(deploymentId: string, status: DeploymentStatus): Promise<Error> {
+		const maxLogLines = 5;
+		const log = await this.getDeploymentEvents(deploymentId);
+		console.error(`Vercel deployment ${deploymentId} build log:`, log);
+
+		const reason = status.errorMessage ? `: ${status.errorMessage}` : "";
+		const tail = log.length > 0 ? `\n${log.slice(-maxLogLines).join("\n")}` : "";
+		return new Error(`Deployment failed with status ${status.readyState}${reason}${tail}`);
+	}
+
 	/**
 	 * Delete a specific deployment
 	 */
@@ -156,22 +331,64 @@ export class VercelApi {
 	}
 
 	/**
-	 * Get all deployments for the project
+	 * Get all deployments for the project, latest first, optionally only those of one target
 	 */
-	async getDeployments(): Promise<Array<{ uid: string; state: string; created: number }>> {
-		try {
-			const response = await requestUrl({
-				url: `${this.baseUrl}/v6/deployments?projectId=${this.projectName}`,
-				method: "GET",
-				headers: {
-					"Authorization": `Bearer ${this.apiToken}`
-				}
-			});
+	async getDeployments(target?: "production" | "preview"): Promise<DeploymentSummary[]> {
+		const response = await requestUrl({
+			url: `${this.baseUrl}/v6/deployments?projectId=${this.projectName}${target ? `&target=${target}` : ""}`,
+			method: "GET",
+			headers: {
+				"Authorization": `Bearer ${this.apiToken}`
+			},
+			throw: false
+		});
 
-			const data = response.json as VercelDeploymentsListResponse;
-			return data.deployments || [];
-		} catch {
-			return [];
+		if (response.status >= 400) {
+			throw this.toApiError(response);
+		}
+
+		const data = response.json as VercelDeploymentsListResponse;
+		return data.deployments || [];
+	}
+
+	/**
+	 * Get the id of the deployment the project's production domains currently point at,
+	 * wherever it was published or rolled back from
+	 */
+	async getProductionDeploymentId(): Promise<string | undefined> {
+		const response = await requestUrl({
+			url: `${this.baseUrl}/v9/projects/${this.projectName}`,
+			method: "GET",
+			headers: {
+				"Authorization": `Bearer ${this.apiToken}`
+			},
+			throw: false
+		});
+
+		if (response.status >= 400) {
+			throw this.toApiError(response);
+		}
+
+		const project = response.json as VercelProjectResponse;
+		return project.targets?.production?.id;
+	}
+
+	/**
+	 * Point the project's production domains at a production deployment: an earlier
+	 * one, or a staged one that was reviewed
+	 */
+	async promoteDeployment(deploymentId: string): Promise<void> {
+		const response = await requestUrl({
+			url: `${this.baseUrl}/v10/projects/${this.projectName}/promote/${deploymentId}`,
+			method: "POST",
+			headers: {
+				"Authorization": `Bearer ${this.apiToken}`
+			},
+			throw: false
+		});
+
+		if (response.status >= 400) {
+			throw this.toApiError(response);
 		}
 	}
 
@@ -0,0 +1,5 @@
+// Font files are bundled as bytes by esbuild's binary loader
+declare module "*.woff2" {
+	const data: Uint8Array;
+	export default data;
+}